@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { parseEther } from 'viem';
+import { RPC } from './rpc';
+import { PaymentWallet } from './paymentWallet';
+import { WebhookDispatcher } from '../orchestration/webhook';
+import { AsyncTask } from '../shared/service';
+import { ChecksumAddressSchema } from '../shared/schemas';
+import { ConfigBalanceMonitorSchema } from '../shared/config';
+import { delay, getUnixTimestamp } from '../utils/helpers';
+
+const MonitoredBalanceSchema = z
+  .object({
+    balance: z.bigint(),
+    // Undefined if no threshold is configured.
+    threshold: z.bigint().optional(),
+    low: z.boolean(),
+  })
+  .strict();
+
+export const BalancesSchema = z
+  .object({
+    // Undefined until the first check.
+    checked_at: z.number().optional(),
+    account: MonitoredBalanceSchema.extend({
+      address: ChecksumAddressSchema,
+    }).optional(),
+    // Undefined if no payment wallet is configured.
+    payment_wallet: z
+      .object({
+        address: ChecksumAddressSchema,
+        // By token address. Allowances are the Coordinator's.
+        tokens: z.record(
+          MonitoredBalanceSchema.extend({ allowance: z.bigint() })
+        ),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type Balances = z.infer<typeof BalancesSchema>;
+
+const AlertSchema = z
+  .object({
+    type: z.enum(['balance_low', 'balance_recovered']),
+    chain: z.string(),
+    chain_id: z.number(),
+    address: ChecksumAddressSchema,
+    // Undefined for the node account's native balance.
+    token: ChecksumAddressSchema.optional(),
+    balance: z.bigint(),
+    threshold: z.bigint(),
+    timestamp: z.number(),
+  })
+  .strict();
+
+// Periodically checks the node account's balance and its payment wallet's token balances and allowances,
+// alerting when they cross below (and back above) their thresholds.
+export class BalanceMonitor extends AsyncTask {
+  static fieldSchemas = {
+    _config: ConfigBalanceMonitorSchema,
+    _chain: z.string(),
+    _chain_id: z.number(),
+    _rpc: z.instanceof(RPC),
+    _address: ChecksumAddressSchema,
+    _payment_wallet: z.instanceof(PaymentWallet).optional(),
+    _coordinator: ChecksumAddressSchema,
+    _webhook: z.instanceof(WebhookDispatcher).optional(),
+    _balances: BalancesSchema,
+  };
+
+  static methodSchemas = {
+    balances: {
+      returns: BalancesSchema,
+    },
+    setup: z.function().returns(z.promise(z.void())),
+    _alert: z
+      .function()
+      .args(
+        z.boolean(),
+        z.boolean(),
+        AlertSchema.omit({ type: true, timestamp: true })
+      )
+      .returns(z.void()),
+    check: z.function().returns(z.promise(z.void())),
+    run_forever: z.function().returns(z.promise(z.void())),
+    cleanup: z.function().returns(z.void()),
+  };
+
+  #config: z.infer<typeof BalanceMonitor.fieldSchemas._config>;
+  #chain: z.infer<typeof BalanceMonitor.fieldSchemas._chain>;
+  #chain_id: z.infer<typeof BalanceMonitor.fieldSchemas._chain_id>;
+  #rpc: z.infer<typeof BalanceMonitor.fieldSchemas._rpc>;
+  #address: z.infer<typeof BalanceMonitor.fieldSchemas._address>;
+  #payment_wallet?: z.infer<typeof BalanceMonitor.fieldSchemas._payment_wallet>;
+  #coordinator: z.infer<typeof BalanceMonitor.fieldSchemas._coordinator>;
+  #webhook?: z.infer<typeof BalanceMonitor.fieldSchemas._webhook>;
+  #balances: z.infer<typeof BalanceMonitor.fieldSchemas._balances>;
+
+  // `payment_wallet` is only monitored if the node has one configured.
+  constructor(
+    config_balance_monitor,
+    chain,
+    chain_id,
+    rpc,
+    address,
+    payment_wallet,
+    coordinator,
+    webhook?
+  ) {
+    super();
+
+    this.#config = BalanceMonitor.fieldSchemas._config.parse(
+      config_balance_monitor
+    );
+    this.#chain = BalanceMonitor.fieldSchemas._chain.parse(chain);
+    this.#chain_id = BalanceMonitor.fieldSchemas._chain_id.parse(chain_id);
+    this.#rpc = BalanceMonitor.fieldSchemas._rpc.parse(rpc);
+    this.#address = BalanceMonitor.fieldSchemas._address.parse(address);
+    this.#payment_wallet =
+      BalanceMonitor.fieldSchemas._payment_wallet.parse(payment_wallet);
+    this.#coordinator =
+      BalanceMonitor.fieldSchemas._coordinator.parse(coordinator);
+    this.#webhook = BalanceMonitor.fieldSchemas._webhook.parse(webhook);
+    this.#balances = BalanceMonitor.fieldSchemas._balances.parse({});
+  }
+
+  // Returns the balances from the last check.
+  get balances(): z.infer<
+    typeof BalanceMonitor.methodSchemas.balances.returns
+  > {
+    return this.#balances;
+  }
+
+  setup = BalanceMonitor.methodSchemas.setup.implement(async () => {});
+
+  // Alerts when a balance crosses its threshold, i.e. only on changes so that alerts aren't repeated every check.
+  #alert = BalanceMonitor.methodSchemas._alert.implement(
+    (was_low, low, details) => {
+      if (was_low === low) return;
+
+      const alert = {
+        type: low ? 'balance_low' : 'balance_recovered',
+        ...details,
+        timestamp: getUnixTimestamp(),
+      } as z.infer<typeof AlertSchema>;
+
+      if (low) console.warn('Balance below threshold', alert);
+      else console.info('Balance recovered', alert);
+
+      const { alert_url, alert_secret } = this.#config;
+
+      // Delivered in the background, since the webhook retries with backoff.
+      if (alert_url && this.#webhook)
+        void this.#webhook.notify_alert(alert_url, alert_secret, alert);
+    }
+  );
+
+  // Checks balances, and alerts on those that crossed their thresholds since the last check.
+  check = BalanceMonitor.methodSchemas.check.implement(async () => {
+    const { min_balance, payment_wallet_tokens } = this.#config;
+    const previous = this.#balances;
+    const details = { chain: this.#chain, chain_id: this.#chain_id };
+
+    const balance = await this.#rpc.get_balance(this.#address);
+    const threshold =
+      min_balance === undefined ? undefined : parseEther(min_balance);
+    const low = threshold !== undefined && balance < threshold;
+
+    this.#alert(!!previous.account?.low, low, {
+      ...details,
+      address: this.#address,
+      balance,
+      threshold: threshold ?? 0n,
+    });
+
+    const balances: z.infer<typeof BalancesSchema> = {
+      checked_at: getUnixTimestamp(),
+      account: { address: this.#address, balance, threshold, low },
+    };
+
+    if (this.#payment_wallet) {
+      const { address } = this.#payment_wallet;
+      const tokens = {};
+
+      for (const [token, min] of Object.entries(payment_wallet_tokens)) {
+        const tokenAddress = RPC.get_checksum_address(token);
+        const [tokenBalance, allowance] = await Promise.all([
+          this.#payment_wallet.get_balance(tokenAddress),
+          this.#payment_wallet.get_allowance(this.#coordinator, tokenAddress),
+        ]);
+        const tokenThreshold = BigInt(min);
+        const tokenLow = tokenBalance < tokenThreshold;
+
+        this.#alert(
+          !!previous.payment_wallet?.tokens[tokenAddress]?.low,
+          tokenLow,
+          {
+            ...details,
+            address,
+            token: tokenAddress,
+            balance: tokenBalance,
+            threshold: tokenThreshold,
+          }
+        );
+
+        tokens[tokenAddress] = {
+          balance: tokenBalance,
+          threshold: tokenThreshold,
+          low: tokenLow,
+          allowance,
+        };
+      }
+
+      balances.payment_wallet = { address, tokens };
+    }
+
+    this.#balances = balances;
+  });
+
+  run_forever = BalanceMonitor.methodSchemas.run_forever.implement(async () => {
+    if (!this.#config.enabled) return;
+
+    console.info('Monitoring balances', {
+      chain: this.#chain,
+      interval: this.#config.interval,
+    });
+
+    while (!this.shutdown) {
+      try {
+        await this.check();
+      } catch (err) {
+        console.warn('Failed to check balances', {
+          chain: this.#chain,
+          err: `${err}`,
+        });
+      }
+
+      await delay(this.#config.interval);
+    }
+  });
+
+  cleanup = BalanceMonitor.methodSchemas.cleanup.implement(() => {});
+}
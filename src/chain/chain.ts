@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import {
+  ConfigChainSchema,
+  ConfigWallet,
+  DEFAULT_CHAIN_NAME,
+  InfernetContainerSchema,
+} from '../shared/config';
+import { add0x } from '../utils/helpers';
+import { loadKeystorePrivateKey } from '../utils/keystore';
+import { ChecksumAddressSchema } from '../shared/schemas';
+import { DataStore } from '../orchestration/store';
+import { Orchestrator } from '../orchestration/orchestrator';
+import { Guardian } from '../orchestration/guardian';
+import { NamespacedStateStore, StateStore } from '../shared/service';
+import { ContainerLookup } from './containerLookup';
+import { ChainProcessor } from './processor';
+import { Wallet } from './wallet';
+import { RPC } from './rpc';
+import { Registry } from './registry';
+import { WalletChecker } from './walletChecker';
+import { Coordinator } from './coordinator';
+import { Reader } from './reader';
+import { PaymentWallet } from './paymentWallet';
+import { ChainListener } from './listener';
+import { PrivateKeySigner, RemoteSigner, Signer } from './signer';
+import { BalanceMonitor } from './balanceMonitor';
+import { WebhookDispatcher } from '../orchestration/webhook';
+import { GasStrategy } from './gas';
+import { EarningsLedger } from './earnings';
+import { RetryPolicy } from './retry';
+import { NonceManager } from './nonce';
+
+// Components serving a single chain. Chains share containers, i.e. the node's orchestrator and data store.
+export class Chain {
+  static fieldSchemas = {
+    _config: ConfigChainSchema,
+    _container_configs: InfernetContainerSchema.array(),
+    _container_lookup: z.instanceof(ContainerLookup),
+    _orchestrator: z.instanceof(Orchestrator),
+    _store: z.instanceof(DataStore),
+    _webhook: z.instanceof(WebhookDispatcher).optional(),
+    _signer: z.instanceof(Signer),
+    name: z.string(),
+    chain_id: z.number(),
+    rpc: z.instanceof(RPC),
+    registry: z.instanceof(Registry),
+    wallet_checker: z.instanceof(WalletChecker),
+    guardian: z.instanceof(Guardian),
+    coordinator: z.instanceof(Coordinator),
+    reader: z.instanceof(Reader),
+    wallet: z.instanceof(Wallet),
+    payment_wallet: z.instanceof(PaymentWallet),
+    processor: z.instanceof(ChainProcessor),
+    listener: z.instanceof(ChainListener),
+    balance_monitor: z.instanceof(BalanceMonitor),
+    earnings: z.instanceof(EarningsLedger),
+    retry_policies: z
+      .object({
+        delivery: z.instanceof(RetryPolicy),
+        simulation: z.instanceof(RetryPolicy),
+        receipt: z.instanceof(RetryPolicy),
+      })
+      .strict(),
+  };
+
+  static methodSchemas = {
+    _payment_address: z.function().returns(ChecksumAddressSchema.optional()),
+    setup: z.function().returns(z.promise(z.void())),
+  };
+
+  #config: z.infer<typeof Chain.fieldSchemas._config>;
+  #container_configs: z.infer<typeof Chain.fieldSchemas._container_configs>;
+  #container_lookup: z.infer<typeof Chain.fieldSchemas._container_lookup>;
+  #orchestrator: z.infer<typeof Chain.fieldSchemas._orchestrator>;
+  #store: z.infer<typeof Chain.fieldSchemas._store>;
+  #webhook?: z.infer<typeof Chain.fieldSchemas._webhook>;
+  #signer: z.infer<typeof Chain.fieldSchemas._signer>;
+  name: z.infer<typeof Chain.fieldSchemas.name>;
+  chain_id!: z.infer<typeof Chain.fieldSchemas.chain_id>;
+  rpc: z.infer<typeof Chain.fieldSchemas.rpc>;
+  registry: z.infer<typeof Chain.fieldSchemas.registry>;
+  wallet_checker: z.infer<typeof Chain.fieldSchemas.wallet_checker>;
+  guardian: z.infer<typeof Chain.fieldSchemas.guardian>;
+  coordinator!: z.infer<typeof Chain.fieldSchemas.coordinator>;
+  reader!: z.infer<typeof Chain.fieldSchemas.reader>;
+  wallet!: z.infer<typeof Chain.fieldSchemas.wallet>;
+  payment_wallet!: z.infer<typeof Chain.fieldSchemas.payment_wallet>;
+  processor!: z.infer<typeof Chain.fieldSchemas.processor>;
+  listener!: z.infer<typeof Chain.fieldSchemas.listener>;
+  balance_monitor!: z.infer<typeof Chain.fieldSchemas.balance_monitor>;
+  earnings!: z.infer<typeof Chain.fieldSchemas.earnings>;
+  retry_policies: z.infer<typeof Chain.fieldSchemas.retry_policies>;
+
+  constructor(
+    config_chain,
+    container_configs,
+    container_lookup,
+    orchestrator,
+    store,
+    webhook?
+  ) {
+    this.#config = Chain.fieldSchemas._config.parse(config_chain);
+    this.#container_configs =
+      Chain.fieldSchemas._container_configs.parse(container_configs);
+    this.#container_lookup =
+      Chain.fieldSchemas._container_lookup.parse(container_lookup);
+    this.#orchestrator = Chain.fieldSchemas._orchestrator.parse(orchestrator);
+    this.#store = Chain.fieldSchemas._store.parse(store);
+    this.#webhook = Chain.fieldSchemas._webhook.parse(webhook);
+    this.name = Chain.fieldSchemas.name.parse(this.#config.name);
+
+    const { rpc_url, rpc_urls, broadcast_transactions, retry } = this.#config;
+    const walletConfig = this.#config.wallet as ConfigWallet;
+    const rpcUrls = [...new Set([...(rpc_url ? [rpc_url] : []), ...rpc_urls])];
+
+    // The signer (e.g. a decrypted keystore's key) is shared by the RPC's and the node's wallets.
+    this.#signer = Chain.fieldSchemas._signer.parse(
+      walletConfig.remote_signer
+        ? new RemoteSigner(walletConfig.remote_signer)
+        : new PrivateKeySigner(
+            walletConfig.keystore
+              ? loadKeystorePrivateKey(walletConfig.keystore)
+              : add0x(walletConfig.private_key as string)
+          )
+    );
+    this.retry_policies = Chain.fieldSchemas.retry_policies.parse({
+      delivery: new RetryPolicy('delivery', retry.delivery),
+      simulation: new RetryPolicy('simulation', retry.simulation),
+      receipt: new RetryPolicy('receipt', retry.receipt),
+    });
+    this.rpc = Chain.fieldSchemas.rpc.parse(
+      new RPC(
+        rpcUrls,
+        this.#signer,
+        broadcast_transactions,
+        this.retry_policies.receipt
+      )
+    );
+    this.registry = Chain.fieldSchemas.registry.parse(
+      new Registry(
+        this.rpc,
+        RPC.get_checksum_address(this.#config.registry_address as string)
+      )
+    );
+    this.wallet_checker = Chain.fieldSchemas.wallet_checker.parse(
+      new WalletChecker(
+        this.rpc,
+        this.registry,
+        this.#container_configs,
+        this.#payment_address()
+      )
+    );
+    this.guardian = Chain.fieldSchemas.guardian.parse(
+      new Guardian(
+        this.#container_configs,
+        true,
+        this.#container_lookup,
+        this.wallet_checker
+      )
+    );
+  }
+
+  // Returns the checksummed payment wallet address, if configured.
+  #payment_address = Chain.methodSchemas._payment_address.implement(() => {
+    const { payment_address } = this.#config.wallet as ConfigWallet;
+
+    return payment_address
+      ? RPC.get_checksum_address(payment_address)
+      : undefined;
+  });
+
+  // Resolves the chain's contract addresses and ID, and initializes the components that depend on them.
+  setup = Chain.methodSchemas.setup.implement(async () => {
+    const walletConfig = this.#config.wallet as ConfigWallet;
+    const paymentAddress = this.#payment_address();
+
+    await this.registry.populate_addresses();
+
+    this.chain_id = Chain.fieldSchemas.chain_id.parse(
+      await this.rpc.get_chain_id()
+    );
+
+    // The default chain keeps its state unprefixed, so that it carries over from single-chain configs.
+    const stateStore: StateStore =
+      this.name === DEFAULT_CHAIN_NAME
+        ? this.#store
+        : new NamespacedStateStore(this.#store, this.name);
+
+    this.coordinator = Chain.fieldSchemas.coordinator.parse(
+      new Coordinator(
+        this.rpc,
+        this.registry.coordinator,
+        this.#container_lookup
+      )
+    );
+    this.reader = Chain.fieldSchemas.reader.parse(
+      new Reader(this.rpc, this.registry.reader, this.#container_lookup)
+    );
+    // Every tx sent from the node's account takes its nonce from the same manager.
+    const nonces = new NonceManager(this.rpc, this.#signer.address);
+
+    this.wallet = Chain.fieldSchemas.wallet.parse(
+      new Wallet(
+        this.rpc,
+        this.coordinator,
+        this.#signer,
+        BigInt(walletConfig.max_gas_limit),
+        paymentAddress,
+        walletConfig.allowed_sim_errors,
+        new GasStrategy(this.rpc, walletConfig.gas),
+        this.retry_policies.simulation,
+        nonces
+      )
+    );
+    this.payment_wallet = Chain.fieldSchemas.payment_wallet.parse(
+      new PaymentWallet(paymentAddress, this.rpc, nonces)
+    );
+    this.earnings = Chain.fieldSchemas.earnings.parse(
+      new EarningsLedger(stateStore)
+    );
+    this.processor = Chain.fieldSchemas.processor.parse(
+      new ChainProcessor(
+        this.rpc,
+        this.coordinator,
+        this.wallet,
+        this.payment_wallet,
+        this.wallet_checker,
+        this.registry,
+        this.#orchestrator,
+        this.#container_lookup,
+        stateStore,
+        this.chain_id,
+        this.#config.profitability,
+        this.earnings,
+        this.retry_policies.delivery,
+        this.#config.scheduler
+      )
+    );
+    this.listener = Chain.fieldSchemas.listener.parse(
+      new ChainListener(
+        this.rpc,
+        this.coordinator,
+        this.registry,
+        this.reader,
+        this.guardian,
+        this.processor,
+        this.#config.trail_head_blocks,
+        this.#config.snapshot_sync,
+        this.#config.sync_mode,
+        this.#config.reorg_depth,
+        stateStore
+      )
+    );
+
+    this.balance_monitor = Chain.fieldSchemas.balance_monitor.parse(
+      new BalanceMonitor(
+        this.#config.balance_monitor,
+        this.name,
+        this.chain_id,
+        this.rpc,
+        this.wallet.address,
+        paymentAddress ? this.payment_wallet : undefined,
+        this.registry.coordinator,
+        this.#webhook
+      )
+    );
+
+    console.info('Initialized chain', {
+      name: this.name,
+      chain_id: this.chain_id,
+      coordinator: this.registry.coordinator,
+      address: this.wallet.address,
+    });
+  });
+}
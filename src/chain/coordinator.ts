@@ -384,7 +384,7 @@ export class Coordinator {
           containerId,
           lazy,
           verifier,
-          Number(paymentAmount),
+          paymentAmount,
           paymentToken,
           wallet
         );
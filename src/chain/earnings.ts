@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { StateStore } from '../shared/service';
+import { ChecksumAddressSchema, HexSchema } from '../shared/schemas';
+
+export const EarningSchema = z
+  .object({
+    // Subscription ID, or `${owner}-${nonce}` for delegate subscriptions.
+    subscription_id: z.string(),
+    interval: z.number(),
+    containers: z.string().array(),
+    token: ChecksumAddressSchema,
+    // Bigints are persisted as strings.
+    amount: z.coerce.bigint(),
+    tx_hash: HexSchema,
+    gas_used: z.coerce.bigint(),
+    // Gas used times the effective gas price, in wei.
+    gas_cost: z.coerce.bigint(),
+    // Unix timestamp (s) at which the delivery was confirmed.
+    delivered_at: z.number(),
+  })
+  .strict();
+
+export type Earning = z.infer<typeof EarningSchema>;
+
+export const EarningsQuerySchema = z
+  .object({
+    // Unix timestamps (s), inclusive.
+    from: z.coerce.number().int().nonnegative().optional(),
+    to: z.coerce.number().int().nonnegative().optional(),
+    group_by: z.enum(['token', 'container', 'period']).default('token'),
+    // Bucket size when grouping by period, in UTC.
+    period: z.enum(['hour', 'day', 'week', 'month']).default('day'),
+  })
+  .strict();
+
+export type EarningsQuery = z.infer<typeof EarningsQuerySchema>;
+
+const EarningsGroupSchema = z
+  .object({
+    // Token address, comma-separated container IDs, or ISO 8601 period start, depending on `group_by`.
+    key: z.string(),
+    // Amounts of different tokens don't add up, so groups are always per token.
+    token: ChecksumAddressSchema,
+    deliveries: z.number(),
+    amount: z.bigint(),
+    gas_used: z.bigint(),
+    gas_cost: z.bigint(),
+  })
+  .strict();
+
+export const EarningsSummarySchema = z
+  .object({
+    deliveries: z.number(),
+    groups: EarningsGroupSchema.array(),
+  })
+  .strict();
+
+const EARNINGS_KEY = 'earnings';
+
+// Returns the ISO 8601 start of the (UTC) period containing a unix timestamp (s). Weeks start on Monday.
+const getPeriodStart = (
+  timestamp: number,
+  period: EarningsQuery['period']
+): string => {
+  const date = new Date(timestamp * 1_000);
+
+  date.setUTCMinutes(0, 0, 0);
+
+  if (period !== 'hour') date.setUTCHours(0);
+
+  if (period === 'week')
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+
+  if (period === 'month') date.setUTCDate(1);
+
+  return date.toISOString();
+};
+
+// Append-only ledger of successful subscription deliveries, persisted to the state store, for accounting of
+// what each token and container has earned.
+export class EarningsLedger {
+  static fieldSchemas = {
+    _state_store: z.instanceof(StateStore),
+  };
+
+  static methodSchemas = {
+    record: z.function().args(EarningSchema).returns(z.promise(z.void())),
+    get_earnings: z
+      .function()
+      .args(z.number().optional(), z.number().optional())
+      .returns(z.promise(EarningSchema.array())),
+    aggregate: z
+      .function()
+      .args(EarningsQuerySchema)
+      .returns(z.promise(EarningsSummarySchema)),
+  };
+
+  #state_store: z.infer<typeof EarningsLedger.fieldSchemas._state_store>;
+
+  constructor(state_store) {
+    this.#state_store =
+      EarningsLedger.fieldSchemas._state_store.parse(state_store);
+  }
+
+  // Records a successful delivery.
+  record = EarningsLedger.methodSchemas.record.implement(async (earning) => {
+    await this.#state_store.append_state(EARNINGS_KEY, JSON.stringify(earning));
+
+    console.info('Recorded earning', {
+      id: earning.subscription_id,
+      interval: earning.interval,
+      token: earning.token,
+      amount: earning.amount,
+    });
+  });
+
+  // Returns the deliveries confirmed between `from` and `to` (inclusive unix timestamps, in seconds).
+  get_earnings = EarningsLedger.methodSchemas.get_earnings.implement(
+    async (from, to) =>
+      (await this.#state_store.get_state_list(EARNINGS_KEY))
+        .map((serialized) => EarningSchema.parse(JSON.parse(serialized)))
+        .filter(
+          ({ delivered_at }) =>
+            (from === undefined || delivered_at >= from) &&
+            (to === undefined || delivered_at <= to)
+        )
+  );
+
+  // Sums deliveries, amounts and gas by token, and by container pipeline or period if requested.
+  aggregate = EarningsLedger.methodSchemas.aggregate.implement(
+    async ({ from, to, group_by, period }) => {
+      const earnings = await this.get_earnings(from, to);
+      const groups: { [key: string]: z.infer<typeof EarningsGroupSchema> } = {};
+
+      earnings.forEach((earning) => {
+        const key =
+          group_by === 'token'
+            ? earning.token
+            : group_by === 'container'
+            ? earning.containers.join(',')
+            : getPeriodStart(earning.delivered_at, period);
+        const group = (groups[`${key}:${earning.token}`] ??= {
+          key,
+          token: earning.token,
+          deliveries: 0,
+          amount: 0n,
+          gas_used: 0n,
+          gas_cost: 0n,
+        });
+
+        group.deliveries += 1;
+        group.amount += earning.amount;
+        group.gas_used += earning.gas_used;
+        group.gas_cost += earning.gas_cost;
+      });
+
+      return {
+        deliveries: earnings.length,
+        groups: Object.values(groups).sort((a, b) =>
+          a.key === b.key
+            ? a.token.localeCompare(b.token)
+            : a.key.localeCompare(b.key)
+        ),
+      };
+    }
+  );
+}
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { parseGwei } from 'viem';
+import { RPC } from './rpc';
+
+// EIP-1559 fee values, as accepted by viem's tx actions.
+export const FeesSchema = z
+  .object({
+    maxFeePerGas: z.bigint(),
+    maxPriorityFeePerGas: z.bigint(),
+  })
+  .strict();
+
+export type Fees = z.infer<typeof FeesSchema>;
+
+// Scales a fee by a (possibly fractional) factor, rounding up so that bumps never fall short.
+const scaleFee = (fee: bigint, factor: number) => {
+  const scaled = fee * BigInt(Math.round(factor * 10_000));
+
+  return (scaled + 9_999n) / 10_000n;
+};
+
+const maxFee = (a: bigint, b: bigint) => (a > b ? a : b);
+
+export class GasStrategy {
+  static fieldSchemas = {
+    _rpc: z.instanceof(RPC),
+    _max_fee_per_gas: z.bigint().optional(),
+    _max_priority_fee_per_gas: z.bigint().optional(),
+    _priority_fee_percentile: z.number(),
+    _fee_history_blocks: z.number(),
+    _base_fee_multiplier: z.number(),
+    _replacement_fee_bump: z.number(),
+    replacement_timeout: z.number(),
+    max_replacements: z.number(),
+  };
+
+  static methodSchemas = {
+    _cap: z.function().args(FeesSchema).returns(FeesSchema),
+    estimate_fees: z.function().returns(z.promise(FeesSchema)),
+    bump_fees: z
+      .function()
+      .args(FeesSchema)
+      .returns(z.promise(FeesSchema.optional())),
+  };
+
+  #rpc: z.infer<typeof GasStrategy.fieldSchemas._rpc>;
+  #max_fee_per_gas?: z.infer<typeof GasStrategy.fieldSchemas._max_fee_per_gas>;
+  #max_priority_fee_per_gas?: z.infer<
+    typeof GasStrategy.fieldSchemas._max_priority_fee_per_gas
+  >;
+  #priority_fee_percentile: z.infer<
+    typeof GasStrategy.fieldSchemas._priority_fee_percentile
+  >;
+  #fee_history_blocks: z.infer<
+    typeof GasStrategy.fieldSchemas._fee_history_blocks
+  >;
+  #base_fee_multiplier: z.infer<
+    typeof GasStrategy.fieldSchemas._base_fee_multiplier
+  >;
+  #replacement_fee_bump: z.infer<
+    typeof GasStrategy.fieldSchemas._replacement_fee_bump
+  >;
+  replacement_timeout: z.infer<
+    typeof GasStrategy.fieldSchemas.replacement_timeout
+  >;
+  max_replacements: z.infer<typeof GasStrategy.fieldSchemas.max_replacements>;
+
+  constructor(rpc, config_gas) {
+    this.#rpc = GasStrategy.fieldSchemas._rpc.parse(rpc);
+    this.#max_fee_per_gas = GasStrategy.fieldSchemas._max_fee_per_gas.parse(
+      config_gas.max_fee_per_gas === undefined
+        ? undefined
+        : parseGwei(`${config_gas.max_fee_per_gas}`)
+    );
+    this.#max_priority_fee_per_gas =
+      GasStrategy.fieldSchemas._max_priority_fee_per_gas.parse(
+        config_gas.max_priority_fee_per_gas === undefined
+          ? undefined
+          : parseGwei(`${config_gas.max_priority_fee_per_gas}`)
+      );
+    this.#priority_fee_percentile =
+      GasStrategy.fieldSchemas._priority_fee_percentile.parse(
+        config_gas.priority_fee_percentile
+      );
+    this.#fee_history_blocks =
+      GasStrategy.fieldSchemas._fee_history_blocks.parse(
+        config_gas.fee_history_blocks
+      );
+    this.#base_fee_multiplier =
+      GasStrategy.fieldSchemas._base_fee_multiplier.parse(
+        config_gas.base_fee_multiplier
+      );
+    this.#replacement_fee_bump =
+      GasStrategy.fieldSchemas._replacement_fee_bump.parse(
+        config_gas.replacement_fee_bump
+      );
+    this.replacement_timeout =
+      GasStrategy.fieldSchemas.replacement_timeout.parse(
+        config_gas.replacement_timeout
+      );
+    this.max_replacements = GasStrategy.fieldSchemas.max_replacements.parse(
+      config_gas.max_replacements
+    );
+  }
+
+  // Caps fees at the configured max fee per gas. The priority fee can't exceed the max fee.
+  #cap = GasStrategy.methodSchemas._cap.implement(
+    ({ maxFeePerGas, maxPriorityFeePerGas }) => {
+      const cappedMaxFee =
+        this.#max_fee_per_gas !== undefined &&
+        maxFeePerGas > this.#max_fee_per_gas
+          ? this.#max_fee_per_gas
+          : maxFeePerGas;
+
+      return {
+        maxFeePerGas: cappedMaxFee,
+        maxPriorityFeePerGas:
+          maxPriorityFeePerGas > cappedMaxFee
+            ? cappedMaxFee
+            : maxPriorityFeePerGas,
+      };
+    }
+  );
+
+  // Estimates fees from the next block's base fee and the median of recent blocks' priority fees at the
+  // configured percentile (unless a fixed priority fee is configured).
+  estimate_fees = GasStrategy.methodSchemas.estimate_fees.implement(
+    async () => {
+      const { baseFeePerGas, reward = [] } = await this.#rpc.get_fee_history(
+        this.#fee_history_blocks,
+        [this.#priority_fee_percentile]
+      );
+      const baseFee = baseFeePerGas[baseFeePerGas.length - 1] ?? 0n;
+
+      let priorityFee = this.#max_priority_fee_per_gas;
+
+      if (priorityFee === undefined) {
+        const rewards = reward
+          .map(([fee]) => fee)
+          .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+        priorityFee = rewards[Math.floor(rewards.length / 2)] ?? 0n;
+      }
+
+      return this.#cap({
+        maxFeePerGas:
+          scaleFee(baseFee, this.#base_fee_multiplier) + priorityFee,
+        maxPriorityFeePerGas: priorityFee,
+      });
+    }
+  );
+
+  // Returns fees to replace a tx sent with `fees`: bumped by the configured percentage, or the current
+  // estimate if higher. Returns undefined if the bumped fees would exceed the max fee per gas.
+  bump_fees = GasStrategy.methodSchemas.bump_fees.implement(async (fees) => {
+    const factor = 1 + this.#replacement_fee_bump / 100;
+    const estimate = await this.estimate_fees();
+    const bumped = {
+      maxFeePerGas: maxFee(
+        scaleFee(fees.maxFeePerGas, factor),
+        estimate.maxFeePerGas
+      ),
+      maxPriorityFeePerGas: maxFee(
+        scaleFee(fees.maxPriorityFeePerGas, factor),
+        estimate.maxPriorityFeePerGas
+      ),
+    };
+
+    if (
+      this.#max_fee_per_gas !== undefined &&
+      bumped.maxFeePerGas > this.#max_fee_per_gas
+    )
+      return undefined;
+
+    return bumped;
+  });
+}
@@ -1,5 +1,6 @@
 // Reference: https://github.com/ritual-net/infernet-node/blob/7753fef9ca3e1383843919bfbb2cc175f8dcd3b7/src/chain/listener.py.
 import { z } from 'zod';
+import { Hex, Log } from 'viem';
 import { Coordinator } from './coordinator';
 import { ChainProcessor } from './processor';
 import { Reader } from './reader';
@@ -11,10 +12,10 @@ import {
   SubscriptionCreatedMessageSchema,
   MessageType,
 } from '../shared/message';
-import { AsyncTask } from '../shared/service';
+import { AsyncTask, StateStore } from '../shared/service';
 import { Subscription } from '../shared/subscription';
 import { delay } from '../utils/helpers';
-import { BlockNumberSchema } from '../shared/schemas';
+import { AddressSchema, BlockNumberSchema, HexSchema } from '../shared/schemas';
 
 const GetBatchesSchema = z
   .function()
@@ -38,6 +39,27 @@ const getBatches = GetBatchesSchema.implement((start, end, batchSize) => {
   return batches;
 });
 
+const ListenerCheckpointSchema = z
+  .object({
+    // Checkpoints are only valid for the Coordinator they were synced from.
+    coordinator: AddressSchema,
+    last_block: z.coerce.bigint(),
+    last_subscription_id: z.number(),
+  })
+  .strict();
+
+type ListenerCheckpoint = z.infer<typeof ListenerCheckpointSchema>;
+
+const LISTENER_CHECKPOINT_KEY = 'chain_listener';
+
+const SyncedBlockSchema = z
+  .object({
+    hash: HexSchema,
+    // Last subscription ID synced as of the block, i.e. what to roll back to if later blocks are reorged.
+    last_subscription_id: z.number(),
+  })
+  .strict();
+
 export class ChainListener extends AsyncTask {
   static fieldSchemas = {
     _rpc: z.instanceof(RPC),
@@ -53,9 +75,25 @@ export class ChainListener extends AsyncTask {
     _syncing_period: z.number(),
     _last_block: z.bigint(),
     _last_subscription_id: z.number(),
+    _force_resync: z.boolean(),
+    _sync_mode: z.enum(['poll', 'events']),
+    _reorg_depth: z.bigint(),
+    _synced_blocks: z.map(z.bigint(), SyncedBlockSchema),
+    _state_store: z.instanceof(StateStore).optional(),
   };
 
   static methodSchemas = {
+    last_block: {
+      returns: z.bigint(),
+    },
+    _relay_subscription: z
+      .function()
+      .args(z.instanceof(Subscription))
+      .returns(z.void()),
+    _sync_events: z
+      .function()
+      .args(BlockNumberSchema, BlockNumberSchema)
+      .returns(z.promise(z.void())),
     _sync_batch_subscriptions_creation: z
       .function()
       .args(z.number(), z.number(), BlockNumberSchema)
@@ -64,6 +102,12 @@ export class ChainListener extends AsyncTask {
       .function()
       .args(BlockNumberSchema)
       .returns(z.promise(z.void())),
+    _load_checkpoint: z
+      .function()
+      .returns(z.promise(ListenerCheckpointSchema.optional())),
+    _save_checkpoint: z.function().returns(z.promise(z.void())),
+    _record_synced_block: z.function().returns(z.promise(z.void())),
+    _handle_reorg: z.function().returns(z.promise(z.boolean())),
     setup: z.function().returns(z.promise(z.void())),
     run_forever: z.function().returns(z.promise(z.void())),
     cleanup: z.function().returns(z.void()),
@@ -92,6 +136,12 @@ export class ChainListener extends AsyncTask {
   #last_subscription_id: z.infer<
     typeof ChainListener.fieldSchemas._last_subscription_id
   > = 0;
+  #force_resync: z.infer<typeof ChainListener.fieldSchemas._force_resync>;
+  #sync_mode: z.infer<typeof ChainListener.fieldSchemas._sync_mode>;
+  #reorg_depth: z.infer<typeof ChainListener.fieldSchemas._reorg_depth>;
+  // Hashes of synced blocks within `#reorg_depth` of `#last_block`, used to detect reorgs.
+  #synced_blocks: z.infer<typeof ChainListener.fieldSchemas._synced_blocks>;
+  #state_store?: z.infer<typeof ChainListener.fieldSchemas._state_store>;
 
   constructor(
     rpc,
@@ -101,7 +151,10 @@ export class ChainListener extends AsyncTask {
     guardian,
     processor,
     trail_head_blocks,
-    snapshot_sync
+    snapshot_sync,
+    sync_mode,
+    reorg_depth,
+    state_store?
   ) {
     super();
 
@@ -131,8 +184,31 @@ export class ChainListener extends AsyncTask {
     this.#syncing_period = ChainListener.fieldSchemas._syncing_period.parse(
       snapshot_sync.sync_period
     );
+    this.#force_resync = ChainListener.fieldSchemas._force_resync.parse(
+      snapshot_sync.force_resync ?? false
+    );
+    this.#sync_mode = ChainListener.fieldSchemas._sync_mode.parse(
+      sync_mode ?? 'poll'
+    );
+    this.#reorg_depth = ChainListener.fieldSchemas._reorg_depth.parse(
+      BigInt(reorg_depth ?? 64)
+    );
+    this.#synced_blocks = ChainListener.fieldSchemas._synced_blocks.parse(
+      new Map()
+    );
+    this.#state_store =
+      ChainListener.fieldSchemas._state_store.parse(state_store);
 
-    console.info('Initialized ChainListener');
+    console.info('Initialized ChainListener', { sync_mode: this.#sync_mode });
+  }
+
+  // Returns the last block synced by the listener.
+  get last_block(): z.infer<
+    typeof ChainListener.methodSchemas.last_block.returns
+  > {
+    return ChainListener.methodSchemas.last_block.returns.parse(
+      this.#last_block
+    );
   }
 
   // Syncs a batch of subscriptions from `start_id` to `end_id` (does not include subscription with `end_id` in batch).
@@ -199,31 +275,107 @@ export class ChainListener extends AsyncTask {
             );
         }
 
-        for (let i = 0; i < subscriptions.length; i++) {
-          const subscription = subscriptions[i];
-          const msg = SubscriptionCreatedMessageSchema.parse({
-            subscription,
-            type: MessageType.SubscriptionCreated,
+        subscriptions.forEach((subscription) =>
+          this.#relay_subscription(subscription)
+        );
+      }
+    );
+
+  // Relays a created subscription to the processor, unless it is filtered out by the guardian.
+  #relay_subscription =
+    ChainListener.methodSchemas._relay_subscription.implement(
+      (subscription) => {
+        const msg = SubscriptionCreatedMessageSchema.parse({
+          subscription,
+          type: MessageType.SubscriptionCreated,
+        });
+
+        const filtered = this.#guardian.process_message(msg);
+
+        if (filtered instanceof GuardianError) {
+          // If filtered out by guardian, message is irrelevant.
+          console.info('Ignored subscription creation', {
+            id: subscription.id,
+            err: filtered.error,
           });
+        } else {
+          this.#processor.track(msg);
 
-          const filtered = this.#guardian.process_message(msg);
+          console.info('Relayed subscription creation', {
+            id: subscription.id,
+          });
+        }
+      }
+    );
 
-          if (filtered instanceof GuardianError) {
-            // If filtered out by guardian, message is irrelevant.
-            console.info('Ignored subscription creation', {
-              id: subscription.id,
-              err: filtered.error,
-            });
-          } else {
-            this.#processor.track(msg);
+  // Consumes Coordinator event logs from `from_block` to `to_block` (inclusive): relays created
+  // subscriptions, and notifies the processor of cancelled and fulfilled subscriptions.
+  #sync_events = ChainListener.methodSchemas._sync_events.implement(
+    async (from_block, to_block) => {
+      const eventsByHash = Object.entries(
+        this.#coordinator.get_event_hashes()
+      ).reduce(
+        (acc, [event, hash]) => ({
+          ...acc,
+          [(hash as Hex).toLowerCase()]: event,
+        }),
+        {}
+      );
+      const logs: Log[] = await this.#rpc.get_event_logs({
+        address: this.#registry.coordinator,
+        fromBlock: from_block,
+        toBlock: to_block,
+      });
 
-            console.info('Relayed subscription creation', {
-              id: subscription.id,
-            });
+      // Subscription IDs and node addresses are indexed, i.e. stored as 32-byte topics.
+      const topicToId = (topic: Hex) => Number(BigInt(topic));
+      const topicToAddress = (topic: Hex): Hex => `0x${topic.slice(-40)}`;
+
+      for (const { topics } of logs) {
+        const [eventHash, idTopic, nodeTopic] = topics;
+
+        if (!eventHash || !idTopic) continue;
+
+        const id = topicToId(idTopic);
+
+        switch (eventsByHash[eventHash.toLowerCase()]) {
+          case 'SubscriptionCreated': {
+            const subscription = await this.#coordinator.get_subscription_by_id(
+              id,
+              to_block
+            );
+
+            this.#relay_subscription(subscription);
+
+            this.#last_subscription_id = Math.max(
+              this.#last_subscription_id,
+              id
+            );
+
+            break;
           }
+          case 'SubscriptionCancelled':
+            this.#processor.track_cancellation(id);
+
+            break;
+          case 'SubscriptionFulfilled':
+            if (nodeTopic)
+              await this.#processor.track_fulfillment(
+                id,
+                topicToAddress(nodeTopic)
+              );
+
+            break;
         }
       }
-    );
+
+      console.debug('Synced coordinator events', {
+        from_block,
+        to_block,
+        count: logs.length,
+      });
+    }
+  );
 
   // Snapshot syncs subscriptions from `Coordinator` up to the latest subscription read at the head block.
   #snapshot_sync = ChainListener.methodSchemas._snapshot_sync.implement(
@@ -296,10 +448,181 @@ export class ChainListener extends AsyncTask {
     }
   );
 
-  // Set up listener by syncing subscriptions up to the head block number.
+  // Loads the persisted sync checkpoint (if any) for the current Coordinator.
+  #load_checkpoint = ChainListener.methodSchemas._load_checkpoint.implement(
+    async () => {
+      if (!this.#state_store) return undefined;
+
+      try {
+        const serialized = await this.#state_store.get_state(
+          LISTENER_CHECKPOINT_KEY
+        );
+
+        if (!serialized) return undefined;
+
+        const checkpoint = ListenerCheckpointSchema.parse(
+          JSON.parse(serialized)
+        );
+
+        if (checkpoint.coordinator !== this.#registry.coordinator) {
+          console.warn('Ignored checkpoint for a different coordinator', {
+            checkpoint: checkpoint.coordinator,
+            coordinator: this.#registry.coordinator,
+          });
+
+          return undefined;
+        }
+
+        return checkpoint;
+      } catch (err) {
+        console.warn('Failed to load listener checkpoint', {
+          err: `${err}`,
+        });
+
+        return undefined;
+      }
+    }
+  );
+
+  // Persists the last synced block and subscription ID, so that restarts resume from them. The processor
+  // persists the subscriptions relayed to it first, so that the checkpoint never moves past subscriptions
+  // that a restart would lose.
+  #save_checkpoint = ChainListener.methodSchemas._save_checkpoint.implement(
+    async () => {
+      if (!this.#state_store) return;
+
+      if (!(await this.#processor.persist())) {
+        console.warn(
+          'Skipped listener checkpoint, processor state not persisted'
+        );
+
+        return;
+      }
+
+      const checkpoint: ListenerCheckpoint = {
+        coordinator: this.#registry.coordinator,
+        last_block: this.#last_block,
+        last_subscription_id: this.#last_subscription_id,
+      };
+
+      try {
+        await this.#state_store.set_state(
+          LISTENER_CHECKPOINT_KEY,
+          JSON.stringify(checkpoint)
+        );
+      } catch (err) {
+        console.error('Failed to save listener checkpoint', {
+          err: `${err}`,
+        });
+      }
+    }
+  );
+
+  // Records the hash of the last synced block, and forgets blocks that are deeper than `#reorg_depth`.
+  #record_synced_block =
+    ChainListener.methodSchemas._record_synced_block.implement(async () => {
+      const { hash } = await this.#rpc.get_block_by_number(
+        this.#last_block,
+        true
+      );
+
+      this.#synced_blocks.set(this.#last_block, {
+        hash: hash as Hex,
+        last_subscription_id: this.#last_subscription_id,
+      });
+
+      for (const block of this.#synced_blocks.keys())
+        if (block < this.#last_block - this.#reorg_depth)
+          this.#synced_blocks.delete(block);
+    });
+
+  // Checks the recorded block hashes against the chain, newest first. If a reorg dropped any synced blocks,
+  // rolls the listener and processor back to the last block that is still canonical, so that the affected
+  // range is re-synced. Returns whether a reorg was handled.
+  #handle_reorg = ChainListener.methodSchemas._handle_reorg.implement(
+    async () => {
+      const blocks = [...this.#synced_blocks.keys()].sort((a, b) =>
+        a > b ? -1 : a < b ? 1 : 0
+      );
+      let forkBlock: bigint | undefined;
+
+      if (!blocks.length) return false;
+
+      for (let i = 0; i < blocks.length; i++) {
+        const { hash } = await this.#rpc.get_block_by_number(blocks[i], true);
+
+        if (hash === this.#synced_blocks.get(blocks[i])?.hash) {
+          if (i === 0) return false;
+
+          forkBlock = blocks[i];
+
+          break;
+        }
+      }
+
+      // If none of the recorded blocks are canonical anymore, re-sync from `#reorg_depth` blocks before the
+      // oldest of them, along with the subscriptions created since.
+      const oldestBlock = blocks[blocks.length - 1] - this.#reorg_depth;
+      const lastBlock = forkBlock ?? (oldestBlock > 0n ? oldestBlock : 0n);
+      const lastSubscriptionId =
+        forkBlock !== undefined
+          ? (this.#synced_blocks.get(forkBlock)?.last_subscription_id as number)
+          : Math.max(
+              await this.#coordinator.get_head_subscription_id(lastBlock),
+              this.#snapshot_sync_starting_sub_id
+            );
+
+      console.warn('Detected chain reorg, rolling back', {
+        synced: this.#last_block,
+        fork_block: forkBlock,
+        last_sub_id: lastSubscriptionId,
+      });
+
+      // Rolled back first, so that the reorg is handled again if the processor fails to roll back.
+      await this.#processor.rollback(lastSubscriptionId);
+
+      for (const block of blocks)
+        if (forkBlock === undefined || block > forkBlock)
+          this.#synced_blocks.delete(block);
+
+      this.#last_block = lastBlock;
+      this.#last_subscription_id = lastSubscriptionId;
+
+      await this.#save_checkpoint();
+
+      return true;
+    }
+  );
+
+  // Set up listener by syncing subscriptions up to the head block number. Resumes from the
+  // persisted checkpoint, unless `force_resync` is set.
   setup = ChainListener.methodSchemas.setup.implement(async () => {
     const headBlock: bigint =
       (await this.#rpc.get_head_block_number()) - this.#trail_head_blocks;
+    // Subscriptions synced before the checkpoint are only known to the processor's persisted state, so
+    // they're re-synced if it couldn't be restored.
+    const checkpoint =
+      this.#force_resync || !(await this.#processor.restore())
+        ? undefined
+        : await this.#load_checkpoint();
+
+    // Blocks since the checkpoint are synced by `run_forever`, so that (in events mode) cancellations and
+    // fulfillments while the node was down are replayed too.
+    if (checkpoint) {
+      this.#last_block =
+        checkpoint.last_block < headBlock ? checkpoint.last_block : headBlock;
+      this.#last_subscription_id = checkpoint.last_subscription_id;
+
+      console.info('Resuming from listener checkpoint', {
+        last_block: this.#last_block,
+        last_sub_id: this.#last_subscription_id,
+        head: headBlock,
+      });
+
+      await this.#record_synced_block();
+
+      return;
+    }
 
     this.#last_block = headBlock;
     this.#last_subscription_id = this.#snapshot_sync_starting_sub_id;
@@ -319,6 +642,9 @@ export class ChainListener extends AsyncTask {
     // Setting this after snapshot, to avoid a 2nd full run of `run_forever` method.
     this.#last_subscription_id = headSubId;
 
+    await this.#record_synced_block();
+    await this.#save_checkpoint();
+
     console.info('Finished snapshot sync', { new_head: headBlock });
   });
 
@@ -334,11 +660,34 @@ export class ChainListener extends AsyncTask {
 
       // Check if latest locally synced block < chain head block.
       if (this.#last_block < headBlock) {
+        // Re-sync from the fork block if synced blocks were reorged out.
+        if (await this.#handle_reorg()) continue;
+
         const numBlocksToSync = Math.min(
           Number(headBlock - this.#last_block),
           100
         );
         const targetBlock = this.#last_block + BigInt(numBlocksToSync);
+
+        if (this.#sync_mode === 'events') {
+          try {
+            await this.#sync_events(this.#last_block + 1n, targetBlock);
+
+            this.#last_block = targetBlock;
+
+            await this.#record_synced_block();
+            await this.#save_checkpoint();
+
+            continue;
+          } catch (err) {
+            console.warn('Failed to sync coordinator events, polling instead', {
+              from_block: this.#last_block + 1n,
+              to_block: targetBlock,
+              err: `${err}`,
+            });
+          }
+        }
+
         const headSubId = await this.#coordinator.get_head_subscription_id(
           targetBlock
         );
@@ -363,15 +712,18 @@ export class ChainListener extends AsyncTask {
         this.#last_block = targetBlock;
         this.#last_subscription_id = headSubId;
 
+        await this.#record_synced_block();
+        await this.#save_checkpoint();
+
         console.info('Checked for new subscriptions', {
           last_synced: this.#last_block,
           last_sub_id: this.#last_subscription_id,
           head_sub_id: headSubId,
         });
       } else {
-        // Else, if already synced to head, sleep.
+        // Else, if already synced to head, sleep until the next block (if subscribed to new heads).
         console.debug(
-          `No new blocks, sleeping for: ${
+          `No new blocks, sleeping for up to: ${
             this.#syncing_period / 1_000
           } seconds`,
           {
@@ -381,7 +733,7 @@ export class ChainListener extends AsyncTask {
           }
         );
 
-        await delay(this.#syncing_period);
+        await this.#rpc.wait_for_block(this.#syncing_period, undefined);
       }
     }
   });
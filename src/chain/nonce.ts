@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { Hex } from 'viem';
+import { Mutex } from 'async-mutex';
+import { LRUCache } from 'lru-cache';
+import { RPC } from './rpc';
+import { isNonceError } from './retry';
+import { AddressSchema, HexSchema } from '../shared/schemas';
+
+// Hands out nonces locally, so that txs can be signed and broadcast concurrently instead of each waiting
+// for the account's nonce to be resolved over RPC.
+export class NonceManager {
+  static fieldSchemas = {
+    _rpc: z.instanceof(RPC),
+    _address: AddressSchema,
+    _lock: z.custom<Mutex>(),
+    _next: z.number().optional(),
+    _released: z.number().array(),
+    _sent: z.custom<LRUCache<Hex, number>>(),
+  };
+
+  static methodSchemas = {
+    acquire: z.function().returns(z.promise(z.number())),
+    release: z.function().args(z.number()).returns(z.void()),
+    sent: z.function().args(z.number(), HexSchema).returns(z.void()),
+    dropped: z.function().args(HexSchema).returns(z.void()),
+    resync: z.function().returns(z.void()),
+    send: z
+      .function()
+      .args(z.function().args(z.number()).returns(z.promise(HexSchema)))
+      .returns(z.promise(HexSchema)),
+  };
+
+  #rpc: z.infer<typeof NonceManager.fieldSchemas._rpc>;
+  #address: z.infer<typeof NonceManager.fieldSchemas._address>;
+  #lock: z.infer<typeof NonceManager.fieldSchemas._lock>;
+  // Next nonce to hand out, or undefined if it has to be (re)synced from the chain.
+  #next?: z.infer<typeof NonceManager.fieldSchemas._next>;
+  // Nonces below `#next` that were handed out but never broadcast, i.e. gaps to fill first.
+  #released: z.infer<typeof NonceManager.fieldSchemas._released>;
+  // Nonces of recently broadcast txs by hash, to release them if the tx is dropped.
+  #sent: z.infer<typeof NonceManager.fieldSchemas._sent>;
+
+  constructor(rpc, address) {
+    this.#rpc = NonceManager.fieldSchemas._rpc.parse(rpc);
+    this.#address = NonceManager.fieldSchemas._address.parse(address);
+    this.#lock = NonceManager.fieldSchemas._lock.parse(new Mutex());
+    this.#released = NonceManager.fieldSchemas._released.parse([]);
+    this.#sent = new LRUCache({ max: 1_000 });
+  }
+
+  // Returns the lowest released nonce, or the next one. Syncs with the account's pending tx count first if needed.
+  acquire = NonceManager.methodSchemas.acquire.implement(() =>
+    this.#lock.runExclusive(async () => {
+      if (this.#next === undefined) {
+        this.#next = await this.#rpc.get_nonce(this.#address, 'pending');
+        this.#released = [];
+
+        console.debug('Synced nonce', {
+          address: this.#address,
+          nonce: this.#next,
+        });
+      }
+
+      if (this.#released.length) {
+        this.#released.sort((a, b) => a - b);
+
+        return this.#released.shift() as number;
+      }
+
+      return this.#next++;
+    })
+  );
+
+  // Returns a nonce whose tx was not broadcast, so that it is reused by the next tx instead of leaving a gap.
+  release = NonceManager.methodSchemas.release.implement((nonce) => {
+    if (this.#next === undefined || nonce >= this.#next) return;
+
+    if (nonce === this.#next - 1) {
+      this.#next--;
+    } else if (!this.#released.includes(nonce)) {
+      this.#released.push(nonce);
+    }
+  });
+
+  // Records the nonce of a broadcast tx.
+  sent = NonceManager.methodSchemas.sent.implement((nonce, tx_hash) => {
+    this.#sent.set(tx_hash, nonce);
+  });
+
+  // Releases the nonce of a broadcast tx that was dropped from the mempool, since later txs can't be mined
+  // until it is reused.
+  dropped = NonceManager.methodSchemas.dropped.implement((tx_hash) => {
+    const nonce = this.#sent.get(tx_hash);
+
+    if (nonce === undefined) return;
+
+    this.#sent.delete(tx_hash);
+
+    console.info('Released nonce of dropped tx', { tx_hash, nonce });
+
+    this.release(nonce);
+  });
+
+  // Discards local nonce state, so that the next nonce is synced from the chain. Called when a tx is rejected
+  // for its nonce.
+  resync = NonceManager.methodSchemas.resync.implement(() => {
+    this.#next = undefined;
+    this.#released = [];
+    this.#sent.clear();
+  });
+
+  // Sends a tx with the next nonce, recording it once broadcast. Every tx sent from the account must go
+  // through here, since nonces handed out locally collide with those of txs sent otherwise.
+  send = NonceManager.methodSchemas.send.implement(async (send_tx) => {
+    const nonce = await this.acquire();
+
+    try {
+      const txHash = await send_tx(nonce);
+
+      this.sent(nonce, txHash);
+
+      return txHash;
+    } catch (err) {
+      if (isNonceError(err)) {
+        console.warn('Tx nonce out of sync, resyncing', {
+          nonce,
+          err: `${err}`,
+        });
+
+        this.resync();
+      } else {
+        // The tx was not broadcast, so its nonce is reused by the next tx.
+        this.release(nonce);
+      }
+
+      throw err;
+    }
+  });
+}
@@ -1,39 +1,99 @@
 // Reference: https://github.com/ritual-net/infernet-node/blob/3806e64bdb3867b462e1760aa7d84abe228f51da/src/chain/payment_wallet.py.
 import { z } from 'zod';
-import { Address } from 'viem';
-import { ZERO_ADDRESS, PAYMENT_WALLET_ABI } from '../utils/constants';
+import { Address, Hex } from 'viem';
+import {
+  ERC20_ABI,
+  ZERO_ADDRESS,
+  PAYMENT_WALLET_ABI,
+} from '../utils/constants';
 import { RPC } from './rpc';
+import { NonceManager } from './nonce';
 import {
   AddressSchema,
   ChecksumAddressSchema,
   ContractInstanceSchema,
+  HexSchema,
 } from '../shared/schemas';
 
+export const TokenBalanceSchema = z
+  .object({
+    balance: z.bigint(),
+    // Escrowed for subscriptions' payments, i.e. not withdrawable.
+    locked: z.bigint(),
+    unlocked: z.bigint(),
+    allowance: z.bigint(),
+  })
+  .strict();
+
+export type TokenBalance = z.infer<typeof TokenBalanceSchema>;
+
+export const WithdrawalSchema = z
+  .object({
+    withdraw_tx: HexSchema,
+    // Undefined if the funds were left with the owner.
+    transfer_tx: HexSchema.optional(),
+  })
+  .strict();
+
 export class PaymentWallet {
   static fieldSchemas = {
     _address: ChecksumAddressSchema.default(ZERO_ADDRESS),
     _rpc: z.instanceof(RPC),
+    _nonces: z.instanceof(NonceManager),
   };
 
   static methodSchemas = {
     address: {
       returns: ChecksumAddressSchema,
     },
+    configured: {
+      returns: z.boolean(),
+    },
     _get_contract: z.function().returns(ContractInstanceSchema),
     get_owner: z.function().returns(z.promise(ChecksumAddressSchema)),
+    get_balance: z
+      .function()
+      .args(AddressSchema)
+      .returns(z.promise(z.bigint())),
+    get_allowance: z
+      .function()
+      .args(AddressSchema, AddressSchema)
+      .returns(z.promise(z.bigint())),
+    get_locked_balance: z
+      .function()
+      .args(AddressSchema)
+      .returns(z.promise(z.bigint())),
+    get_token_balance: z
+      .function()
+      .args(AddressSchema, AddressSchema)
+      .returns(z.promise(TokenBalanceSchema)),
+    _assert_owner: z.function().returns(z.promise(ChecksumAddressSchema)),
     approve: z
       .function()
       .args(AddressSchema, AddressSchema, z.bigint())
       .returns(z.promise(z.void())),
+    revoke: z
+      .function()
+      .args(AddressSchema, AddressSchema)
+      .returns(z.promise(z.void())),
+    withdraw: z
+      .function()
+      .args(AddressSchema, z.bigint().positive(), AddressSchema.optional())
+      .returns(z.promise(WithdrawalSchema)),
   };
 
   #address: z.infer<typeof PaymentWallet.fieldSchemas._address>;
   #rpc: z.infer<typeof PaymentWallet.fieldSchemas._rpc>;
+  // Shared with the node's `Wallet`, since txs are sent from the same account.
+  #nonces: z.infer<typeof PaymentWallet.fieldSchemas._nonces>;
   #contract: any;
 
-  constructor(address, rpc) {
+  constructor(address, rpc, nonces?) {
     this.#address = PaymentWallet.fieldSchemas._address.parse(address);
     this.#rpc = PaymentWallet.fieldSchemas._rpc.parse(rpc);
+    this.#nonces = PaymentWallet.fieldSchemas._nonces.parse(
+      nonces ?? new NonceManager(this.#rpc, this.#rpc.account)
+    );
     this.#contract = this.#rpc.get_contract(this.address, PAYMENT_WALLET_ABI);
   }
 
@@ -45,20 +105,80 @@ export class PaymentWallet {
     return this.#address;
   }
 
+  // Whether the node has a `PaymentWallet` configured.
+  get configured(): z.infer<
+    typeof PaymentWallet.methodSchemas.configured.returns
+  > {
+    return this.#address !== ZERO_ADDRESS;
+  }
+
   // Get the owner of the `PaymentWallet` contract.
   get_owner = PaymentWallet.methodSchemas.get_owner.implement(
     async () => this.#contract.read.owner() as Promise<Address>
   );
 
-  // Approve a spender to spend a certain amount of tokens.
-  approve = PaymentWallet.methodSchemas.approve.implement(
-    async (spender, token, amount) => {
+  // Get the contract's balance of a token (the zero address for the native token).
+  get_balance = PaymentWallet.methodSchemas.get_balance.implement(
+    async (token) => {
+      if (token === ZERO_ADDRESS) return this.#rpc.get_balance(this.address);
+
+      return this.#rpc
+        .get_contract(token, ERC20_ABI)
+        .read.balanceOf([this.address]) as Promise<bigint>;
+    }
+  );
+
+  // Get the amount of a token that a spender is allowed to spend.
+  get_allowance = PaymentWallet.methodSchemas.get_allowance.implement(
+    async (spender, token) =>
+      this.#contract.read.allowance([spender, token]) as Promise<bigint>
+  );
+
+  // Get the amount of a token locked in escrow for subscriptions' payments.
+  get_locked_balance = PaymentWallet.methodSchemas.get_locked_balance.implement(
+    async (token) =>
+      this.#contract.read.lockedBalanceOf([token]) as Promise<bigint>
+  );
+
+  // Get the contract's balance of a token, split into locked and unlocked (withdrawable) amounts, along
+  // with a spender's allowance.
+  get_token_balance = PaymentWallet.methodSchemas.get_token_balance.implement(
+    async (token, spender) => {
+      const [balance, locked, allowance] = await Promise.all([
+        this.get_balance(token),
+        this.get_locked_balance(token),
+        this.get_allowance(spender, token),
+      ]);
+
+      return {
+        balance,
+        locked,
+        unlocked: balance > locked ? balance - locked : 0n,
+        allowance,
+      };
+    }
+  );
+
+  // Throws unless the RPC account owns the contract, returning the owner.
+  #assert_owner = PaymentWallet.methodSchemas._assert_owner.implement(
+    async () => {
       const owner = await this.get_owner();
 
       if (owner !== this.#rpc.account)
         throw new Error('RPC account must be contract owner');
 
-      const hash = await this.#contract.write.approve([spender, token, amount]);
+      return owner;
+    }
+  );
+
+  // Approve a spender to spend a certain amount of tokens.
+  approve = PaymentWallet.methodSchemas.approve.implement(
+    async (spender, token, amount) => {
+      await this.#assert_owner();
+
+      const hash = await this.#nonces.send((nonce) =>
+        this.#contract.write.approve([spender, token, amount], { nonce })
+      );
 
       // Waits for the transaction to be included in a block, and returns the receipt.
       await this.#rpc.client.waitForTransactionReceipt({ hash });
@@ -72,4 +192,72 @@ export class PaymentWallet {
         throw new Error('Allowance is not equal to the amount set.');
     }
   );
+
+  // Revoke a spender's allowance of a token.
+  revoke = PaymentWallet.methodSchemas.revoke.implement(
+    async (spender, token) => this.approve(spender, token, 0n)
+  );
+
+  // Withdraw an unlocked amount of a token. The contract sends withdrawals to its owner (i.e. the RPC
+  // account), which then forwards them to `recipient` if one is given.
+  withdraw = PaymentWallet.methodSchemas.withdraw.implement(
+    async (token, amount, recipient) => {
+      const owner = await this.#assert_owner();
+      const unlocked = (await this.get_token_balance(token, owner)).unlocked;
+
+      if (amount > unlocked)
+        throw new Error(
+          `Amount exceeds unlocked balance: ${amount} > ${unlocked}`
+        );
+
+      const withdrawTx: Hex = await this.#nonces.send((nonce) =>
+        this.#contract.write.withdraw([token, amount], { nonce })
+      );
+      const receipt = await this.#rpc.client.waitForTransactionReceipt({
+        hash: withdrawTx,
+      });
+
+      if (receipt.status !== 'success')
+        throw new Error(`Withdrawal reverted: ${withdrawTx}`);
+
+      console.info('Withdrew from payment wallet', {
+        token,
+        amount,
+        tx_hash: withdrawTx,
+      });
+
+      if (!recipient || RPC.get_checksum_address(recipient) === owner)
+        return { withdraw_tx: withdrawTx };
+
+      const transferTx: Hex = await this.#nonces.send((nonce) =>
+        token === ZERO_ADDRESS
+          ? this.#rpc.wallet.sendTransaction({
+              account: this.#rpc.signer_account,
+              chain: null,
+              to: recipient,
+              value: amount,
+              nonce,
+            })
+          : this.#rpc
+              .get_contract(token, ERC20_ABI)
+              .write.transfer([recipient, amount], { nonce })
+      );
+
+      const transferReceipt = await this.#rpc.client.waitForTransactionReceipt({
+        hash: transferTx,
+      });
+
+      if (transferReceipt.status !== 'success')
+        throw new Error(`Transfer to recipient reverted: ${transferTx}`);
+
+      console.info('Forwarded withdrawal', {
+        token,
+        amount,
+        recipient,
+        tx_hash: transferTx,
+      });
+
+      return { withdraw_tx: withdrawTx, transfer_tx: transferTx };
+    }
+  );
 }
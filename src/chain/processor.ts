@@ -6,6 +6,8 @@ import {
   ContractFunctionRevertedError,
   ContractFunctionExecutionError,
   BaseError,
+  parseEther,
+  TransactionReceipt,
 } from 'viem';
 import { Mutex } from 'async-mutex';
 import { cloneDeep } from 'lodash';
@@ -32,11 +34,25 @@ import {
   OnchainMessageSchema,
   SubscriptionCreatedMessageSchema,
 } from '../shared/message';
-import { AsyncTask } from '../shared/service';
+import { AsyncTask, StateStore } from '../shared/service';
 import { Subscription } from '../shared/subscription';
 import { ContainerLookup } from './containerLookup';
-import { getUnixTimestamp, delay } from '../utils/helpers';
-import { HexSchema } from '../shared/schemas';
+import { EarningSchema, EarningsLedger } from './earnings';
+import { AttemptFailureSchema, RetryPolicy, classifyError } from './retry';
+import { compareScheduled, getNextDue } from './scheduler';
+import { getUnixTimestamp } from '../utils/helpers';
+import { ZERO_ADDRESS } from '../utils/constants';
+import {
+  ConfigProfitabilitySchema,
+  ConfigRetrySchema,
+  ConfigSchedulerSchema,
+  RetryErrorClassSchema,
+} from '../shared/config';
+import {
+  AddressSchema,
+  ChecksumAddressSchema,
+  HexSchema,
+} from '../shared/schemas';
 
 const IntervalSchema = z.number();
 
@@ -72,6 +88,23 @@ const ParsePendingOrAttemptsKeySchema = z
 
 const ResponseKeysSchema = z.string().array();
 
+const DelegatedParamsSchema = z.tuple([
+  CoordinatorSignatureParamsSchema,
+  z.record(z.any()),
+]);
+
+// A tracked subscription, as scheduled by the processing loop.
+const ScheduledSubscriptionSchema = z
+  .object({
+    id: UnionIDSchema,
+    subscription: z.instanceof(Subscription),
+    delegated: z.boolean(),
+    delegated_params: DelegatedParamsSchema.optional(),
+    // Time (ms) from which the subscription needs processing, e.g. when its next interval starts.
+    due: z.number(),
+  })
+  .strict();
+
 type Interval = z.infer<typeof IntervalSchema>;
 
 type SubscriptionID = z.infer<typeof SubscriptionIDSchema>;
@@ -82,6 +115,10 @@ type UnionID = z.infer<typeof UnionIDSchema>;
 
 type DelegateSubscriptionData = z.infer<typeof DelegateSubscriptionDataSchema>;
 
+type DelegatedParams = z.infer<typeof DelegatedParamsSchema>;
+
+type ScheduledSubscription = z.infer<typeof ScheduledSubscriptionSchema>;
+
 const makeDelegateSubscriptionsKey =
   MakeDelegateSubscriptionsKeySchema.implement(
     (subOwner, sigNonce) => `${subOwner}-${sigNonce}`
@@ -113,6 +150,111 @@ const parsePendingOrAttemptsKey = ParsePendingOrAttemptsKeySchema.implement(
   }
 );
 
+const ParseSubscriptionKeySchema = z
+  .function()
+  .args(z.string())
+  .returns(UnionIDSchema.optional());
+
+// Parses a subscription key as exposed by the admin API, i.e. `${SubscriptionID}` for subscriptions,
+// or `${Hex}-${number}` (owner and signature nonce) for delegate subscriptions.
+const parseSubscriptionKey = ParseSubscriptionKeySchema.implement((key) => {
+  if (/^\d+$/.test(key)) return Number(key);
+
+  const items = key.split('-');
+
+  if (items.length === 2 && HexSchema.safeParse(items[0]).success)
+    if (/^\d+$/.test(items[1])) return [items[0] as Hex, Number(items[1])];
+
+  return undefined;
+});
+
+export const TrackedSubscriptionSchema = z
+  .object({
+    id: z.string(),
+    delegated: z.boolean(),
+    owner: ChecksumAddressSchema,
+    wallet: ChecksumAddressSchema,
+    containers: z.string().array(),
+    active: z.boolean(),
+    active_at: z.number(),
+    // Undefined if the subscription is not active yet.
+    interval: z.number().optional(),
+    payment_token: ChecksumAddressSchema,
+    payment_amount: z.bigint(),
+    requires_proof: z.boolean(),
+    // Tx hashes by interval. `0xblocked` means the interval is being processed and no tx has been sent yet.
+    pending: z.record(HexSchema),
+    // Failed delivery attempt counts by interval.
+    attempts: z.record(z.number()),
+    // Why each attempt failed, by interval. Not persisted across restarts.
+    failures: z.record(AttemptFailureSchema.array()),
+  })
+  .strict();
+
+export const RetrySubscriptionResultSchema = z.enum([
+  'retried',
+  'not_found',
+  'processing',
+  'inactive',
+]);
+
+export type TrackedSubscription = z.infer<typeof TrackedSubscriptionSchema>;
+
+export type RetrySubscriptionResult = z.infer<
+  typeof RetrySubscriptionResultSchema
+>;
+
+// Subscriptions are persisted as their ID and constructor params (see `Subscription.get_tx_inputs`).
+const PersistedSubscriptionSchema = z
+  .object({
+    id: z.number(),
+    params: z.any().array(),
+  })
+  .strict();
+
+// Delivery txs awaiting confirmation before they are recorded in the earnings ledger. `hashes` lists every tx
+// sent for the delivery (i.e. the original and its replacements), any of which may be mined.
+const DeliverySchema = EarningSchema.omit({
+  gas_used: true,
+  gas_cost: true,
+  delivered_at: true,
+}).extend({
+  hashes: HexSchema.array().default([]),
+});
+
+const ProcessorStateSchema = z
+  .object({
+    subscriptions: PersistedSubscriptionSchema.array(),
+    delegate_subscriptions: z.record(
+      z.tuple([
+        PersistedSubscriptionSchema,
+        // Bigint signature params are serialized as strings.
+        CoordinatorSignatureParamsSchema.extend({
+          v: z.coerce.bigint(),
+          r: z.coerce.bigint(),
+          s: z.coerce.bigint(),
+        }),
+        z.record(z.any()),
+      ])
+    ),
+    pending: z.record(HexSchema),
+    attempts: z.record(z.number()),
+    // Absent in state persisted before the earnings ledger was introduced.
+    deliveries: z.record(DeliverySchema).default({}),
+  })
+  .strict();
+
+type ProcessorState = z.infer<typeof ProcessorStateSchema>;
+
+const PROCESSOR_STATE_KEY = 'chain_processor';
+
+// Minimum time (ms) between processing loop runs, so that intervals that keep failing aren't reprocessed
+// in a busy loop.
+const PROCESSING_PERIOD = 100;
+
+// Maximum time (ms) between processing loop runs, e.g. to persist state.
+const NEW_HEAD_TIMEOUT = 12_000;
+
 const BLOCKED: z.infer<typeof HexSchema> = '0xblocked';
 
 const RESPONSE_KEYS: z.infer<typeof ResponseKeysSchema> = [
@@ -138,9 +280,72 @@ export class ChainProcessor extends AsyncTask {
     _pending: z.record(HexSchema),
     _attempts: z.record(z.number()),
     _attempts_lock: z.custom<Mutex>(),
+    _state_store: z.instanceof(StateStore).optional(),
+    _persisted_state: z.string().optional(),
+    _wake: z.instanceof(AbortController).optional(),
+    _sent_txs: z.record(
+      z
+        .object({
+          sent_at: z.number(),
+          // Hashes of the tx and its replacements, any of which may be mined.
+          hashes: HexSchema.array(),
+          gave_up: z.boolean(),
+        })
+        .strict()
+    ),
+    _chain_id: z.number().optional(),
+    _profitability: ConfigProfitabilitySchema,
+    _deferred: z.record(z.number()),
+    _earnings: z.instanceof(EarningsLedger).optional(),
+    _deliveries: z.record(DeliverySchema),
+    _delivery_retry: z.instanceof(RetryPolicy),
+    _failures: z.record(AttemptFailureSchema.array()),
+    _scheduler: ConfigSchedulerSchema,
+    _processing: z.record(z.number()),
+    _dispatched: z.record(z.number()),
+    _backlogged: z.boolean(),
+    _pruning: z.boolean(),
+    _restored: z.promise(z.boolean()).optional(),
   };
 
   static methodSchemas = {
+    tracking_counts: {
+      returns: z
+        .object({
+          subscriptions: z.number(),
+          delegate_subscriptions: z.number(),
+          pending_txs: z.number(),
+          processing: z.number(),
+        })
+        .strict(),
+    },
+    _find_subscription: z
+      .function()
+      .args(UnionIDSchema)
+      .returns(z.instanceof(Subscription).optional()),
+    _keys_for_subscription: z
+      .function()
+      .args(UnionIDSchema, z.record(z.any()))
+      .returns(z.tuple([z.string(), IntervalSchema]).array()),
+    _describe_subscription: z
+      .function()
+      .args(UnionIDSchema, z.instanceof(Subscription))
+      .returns(TrackedSubscriptionSchema),
+    get_tracked_subscriptions: z
+      .function()
+      .returns(TrackedSubscriptionSchema.array()),
+    get_tracked_subscription: z
+      .function()
+      .args(z.string())
+      .returns(TrackedSubscriptionSchema.optional()),
+    untrack_subscription: z
+      .function()
+      .args(z.string())
+      .returns(z.promise(z.boolean())),
+    retry_subscription: z
+      .function()
+      .args(z.string())
+      .returns(z.promise(RetrySubscriptionResultSchema)),
     _track_created_message: z
       .function()
       .args(SubscriptionCreatedMessageSchema)
@@ -153,7 +358,12 @@ export class ChainProcessor extends AsyncTask {
       .function()
       .args(SubscriptionIDSchema)
       .returns(z.promise(z.boolean())),
+    _replace_stuck_tx: z
+      .function()
+      .args(z.string(), HexSchema)
+      .returns(z.promise(z.void())),
     _prune_failed_txs: z.function().returns(z.promise(z.void())),
+    _record_earnings: z.function().returns(z.promise(z.void())),
     _stop_tracking: z
       .function()
       .args(UnionIDSchema, z.boolean())
@@ -178,10 +388,27 @@ export class ChainProcessor extends AsyncTask {
       .function()
       .args(z.instanceof(Subscription))
       .returns(z.promise(z.boolean())),
+    _attempts_exhausted: z.function().args(z.string()).returns(z.boolean()),
+    _record_failed_attempt: z
+      .function()
+      .args(z.string(), RetryErrorClassSchema, z.string())
+      .returns(z.boolean()),
     _stop_tracking_if_maximum_retries_reached: z
       .function()
       .args(z.tuple([UnionIDSchema, IntervalSchema]), z.boolean())
       .returns(z.promise(z.boolean())),
+    _token_price: z
+      .function()
+      .args(ChecksumAddressSchema)
+      .returns(z.bigint().optional()),
+    _defer_if_unprofitable: z
+      .function()
+      .args(
+        z.string(),
+        z.instanceof(Subscription),
+        CoordinatorSignatureParamsSchema.optional()
+      )
+      .returns(z.promise(z.boolean())),
     _stop_tracking_sub_if_missed_deadline: z
       .function()
       .args(UnionIDSchema, z.boolean())
@@ -211,9 +438,7 @@ export class ChainProcessor extends AsyncTask {
       .args(
         z.instanceof(Subscription),
         z.boolean(),
-        z
-          .tuple([CoordinatorSignatureParamsSchema, z.record(z.any())])
-          .optional()
+        DelegatedParamsSchema.optional()
       )
       .returns(
         z.promise(
@@ -230,15 +455,46 @@ export class ChainProcessor extends AsyncTask {
         UnionIDSchema,
         z.instanceof(Subscription),
         z.boolean(),
-        z
-          .tuple([CoordinatorSignatureParamsSchema, z.record(z.any())])
-          .optional()
+        DelegatedParamsSchema.optional()
       )
       .returns(z.promise(z.void())),
+    _next_due: z
+      .function()
+      .args(UnionIDSchema, z.instanceof(Subscription))
+      .returns(z.number()),
+    _payment_value: z
+      .function()
+      .args(z.instanceof(Subscription))
+      .returns(z.bigint()),
+    _schedule: z.function().returns(ScheduledSubscriptionSchema.array()),
+    _needs_processing: z
+      .function()
+      .args(UnionIDSchema, z.instanceof(Subscription), z.boolean())
+      .returns(z.promise(z.boolean())),
+    _dispatch: z
+      .function()
+      .args(ScheduledSubscriptionSchema)
+      .returns(z.promise(z.void())),
     track: z.function().args(OnchainMessageSchema).returns(z.promise(z.void())),
+    rollback: z
+      .function()
+      .args(SubscriptionIDSchema)
+      .returns(z.promise(z.void())),
+    track_cancellation: z
+      .function()
+      .args(SubscriptionIDSchema)
+      .returns(z.void()),
+    track_fulfillment: z
+      .function()
+      .args(SubscriptionIDSchema, AddressSchema)
+      .returns(z.promise(z.void())),
+    _persist_state: z.function().returns(z.promise(z.boolean())),
+    persist: z.function().returns(z.promise(z.boolean())),
+    restore: z.function().returns(z.promise(z.boolean())),
+    _rehydrate_state: z.function().returns(z.promise(z.void())),
     run_forever: z.function().returns(z.promise(z.void())),
-    setup: z.function().returns(z.void()),
-    cleanup: z.function().returns(z.void()),
+    setup: z.function().returns(z.promise(z.void())),
+    cleanup: z.function().returns(z.promise(z.void())),
   };
 
   #rpc: z.infer<typeof ChainProcessor.fieldSchemas._rpc>;
@@ -258,6 +514,38 @@ export class ChainProcessor extends AsyncTask {
   #pending: z.infer<typeof ChainProcessor.fieldSchemas._pending>;
   #attempts: z.infer<typeof ChainProcessor.fieldSchemas._attempts>;
   #attempts_lock: z.infer<typeof ChainProcessor.fieldSchemas._attempts_lock>;
+  #state_store?: z.infer<typeof ChainProcessor.fieldSchemas._state_store>;
+  // Last state written to `#state_store`, to skip writes when nothing has changed.
+  #persisted_state?: z.infer<
+    typeof ChainProcessor.fieldSchemas._persisted_state
+  >;
+  // Resolves to whether persisted state was restored (or there was none to restore), once it has been.
+  #restored?: z.infer<typeof ChainProcessor.fieldSchemas._restored>;
+  // Aborted to wake the processing loop early, e.g. when a new subscription is tracked.
+  #wake?: z.infer<typeof ChainProcessor.fieldSchemas._wake>;
+  // Replacement state of pending txs that have not been mined yet, by `#pending` key.
+  #sent_txs: z.infer<typeof ChainProcessor.fieldSchemas._sent_txs>;
+  #chain_id?: z.infer<typeof ChainProcessor.fieldSchemas._chain_id>;
+  #profitability: z.infer<typeof ChainProcessor.fieldSchemas._profitability>;
+  // Times (ms) until which subscription intervals are skipped (e.g. unprofitable or retried ones), by
+  // `#pending` key.
+  #deferred: z.infer<typeof ChainProcessor.fieldSchemas._deferred>;
+  #earnings?: z.infer<typeof ChainProcessor.fieldSchemas._earnings>;
+  // Sent delivery txs to record in `#earnings` once confirmed, by `#pending` key.
+  #deliveries: z.infer<typeof ChainProcessor.fieldSchemas._deliveries>;
+  #delivery_retry: z.infer<typeof ChainProcessor.fieldSchemas._delivery_retry>;
+  // Why each counted attempt failed, by `#attempts` key.
+  #failures: z.infer<typeof ChainProcessor.fieldSchemas._failures>;
+  #scheduler: z.infer<typeof ChainProcessor.fieldSchemas._scheduler>;
+  // Start times (ms) of `#process_subscription` calls in progress, by `#pending` key.
+  #processing: z.infer<typeof ChainProcessor.fieldSchemas._processing>;
+  // Times (ms) at which subscription intervals were last dispatched (i.e. checked for processing), by
+  // `#pending` key.
+  #dispatched: z.infer<typeof ChainProcessor.fieldSchemas._dispatched>;
+  // Whether due subscriptions were left waiting for a processing slot in the last processing loop run.
+  #backlogged: z.infer<typeof ChainProcessor.fieldSchemas._backlogged>;
+  // Whether failed txs are being pruned, so that slow prunes don't overlap.
+  #pruning: z.infer<typeof ChainProcessor.fieldSchemas._pruning>;
 
   constructor(
     rpc: RPC,
@@ -267,7 +555,13 @@ export class ChainProcessor extends AsyncTask {
     wallet_checker: WalletChecker,
     registry: Registry,
     orchestrator: Orchestrator,
-    container_lookup: ContainerLookup
+    container_lookup: ContainerLookup,
+    state_store?: StateStore,
+    chain_id?: number,
+    profitability?: z.input<typeof ConfigProfitabilitySchema>,
+    earnings?: EarningsLedger,
+    delivery_retry?: RetryPolicy,
+    scheduler?: z.input<typeof ConfigSchedulerSchema>
   ) {
     super();
 
@@ -289,14 +583,197 @@ export class ChainProcessor extends AsyncTask {
       ChainProcessor.fieldSchemas._delegate_subscriptions.parse({});
     this.#pending = ChainProcessor.fieldSchemas._pending.parse({});
     this.#attempts = ChainProcessor.fieldSchemas._attempts.parse({});
+    this.#sent_txs = ChainProcessor.fieldSchemas._sent_txs.parse({});
+    this.#state_store =
+      ChainProcessor.fieldSchemas._state_store.parse(state_store);
+    this.#chain_id = ChainProcessor.fieldSchemas._chain_id.parse(chain_id);
+    this.#profitability = ChainProcessor.fieldSchemas._profitability.parse(
+      profitability ?? {}
+    );
+    this.#deferred = ChainProcessor.fieldSchemas._deferred.parse({});
+    this.#earnings = ChainProcessor.fieldSchemas._earnings.parse(earnings);
+    this.#deliveries = ChainProcessor.fieldSchemas._deliveries.parse({});
+    this.#delivery_retry = ChainProcessor.fieldSchemas._delivery_retry.parse(
+      delivery_retry ??
+        new RetryPolicy('delivery', ConfigRetrySchema.parse({}).delivery)
+    );
+    this.#failures = ChainProcessor.fieldSchemas._failures.parse({});
+    this.#scheduler = ChainProcessor.fieldSchemas._scheduler.parse(
+      scheduler ?? {}
+    );
+    this.#processing = ChainProcessor.fieldSchemas._processing.parse({});
+    this.#dispatched = ChainProcessor.fieldSchemas._dispatched.parse({});
+    this.#backlogged = ChainProcessor.fieldSchemas._backlogged.parse(false);
+    this.#pruning = ChainProcessor.fieldSchemas._pruning.parse(false);
 
-    console.info('Initialized ChainProcessor');
+    console.info('Initialized ChainProcessor', { chain_id: this.#chain_id });
 
     this.#attempts_lock = ChainProcessor.fieldSchemas._attempts_lock.parse(
       new Mutex()
     );
   }
 
+  // Returns the number of tracked subscriptions, and of subscription intervals being processed or with pending txs.
+  get tracking_counts(): z.infer<
+    typeof ChainProcessor.methodSchemas.tracking_counts.returns
+  > {
+    const pending = Object.values(this.#pending);
+    const processing = pending.filter((txHash) => txHash === BLOCKED).length;
+
+    return ChainProcessor.methodSchemas.tracking_counts.returns.parse({
+      subscriptions: Object.keys(this.#subscriptions).length,
+      delegate_subscriptions: Object.keys(this.#delegate_subscriptions).length,
+      pending_txs: pending.length - processing,
+      processing,
+    });
+  }
+
+  // Returns the tracked subscription or delegate subscription with the given ID, if any.
+  #find_subscription =
+    ChainProcessor.methodSchemas._find_subscription.implement((id) => {
+      if (!Array.isArray(id)) return this.#subscriptions[id];
+
+      const data = this.#delegate_subscriptions[
+        makeDelegateSubscriptionsKey(id[0], id[1])
+      ] as DelegateSubscriptionData | undefined;
+
+      return data?.[0];
+    });
+
+  // Returns the `#pending` or `#attempts` keys (along with their intervals) belonging to a subscription.
+  #keys_for_subscription =
+    ChainProcessor.methodSchemas._keys_for_subscription.implement(
+      (id, record) => {
+        const prefix = `${
+          Array.isArray(id) ? makeDelegateSubscriptionsKey(id[0], id[1]) : id
+        }-`;
+
+        return Object.keys(record)
+          .filter((key) => key.startsWith(prefix))
+          .map((key): [string, Interval] => [
+            key,
+            parsePendingOrAttemptsKey(key)[1],
+          ]);
+      }
+    );
+
+  // Summarizes a tracked subscription, along with its pending txs and attempts, for the admin API.
+  #describe_subscription =
+    ChainProcessor.methodSchemas._describe_subscription.implement(
+      (id, subscription) => {
+        const byInterval = (record) =>
+          this.#keys_for_subscription(id, record).reduce(
+            (acc, [key, interval]) => ({ ...acc, [interval]: record[key] }),
+            {}
+          );
+
+        return {
+          id: Array.isArray(id)
+            ? makeDelegateSubscriptionsKey(id[0], id[1])
+            : `${id}`,
+          delegated: Array.isArray(id),
+          owner: subscription.owner,
+          wallet: subscription.wallet,
+          containers: subscription.containers,
+          active: subscription.active,
+          active_at: subscription.active_at,
+          interval: subscription.active ? subscription.interval : undefined,
+          payment_token: subscription.payment_token,
+          payment_amount: subscription.payment_amount,
+          requires_proof: subscription.requires_proof,
+          pending: byInterval(this.#pending),
+          attempts: byInterval(this.#attempts),
+          failures: byInterval(this.#failures),
+        };
+      }
+    );
+
+  // Returns all tracked subscriptions and delegate subscriptions.
+  get_tracked_subscriptions =
+    ChainProcessor.methodSchemas.get_tracked_subscriptions.implement(() => [
+      ...Object.entries(this.#subscriptions).map(([id, subscription]) =>
+        this.#describe_subscription(Number(id), subscription)
+      ),
+      ...Object.entries(this.#delegate_subscriptions).map(
+        ([id, [subscription]]) =>
+          this.#describe_subscription(
+            parseSubscriptionKey(id) as DelegateSubscriptionID,
+            subscription
+          )
+      ),
+    ]);
+
+  // Returns a tracked subscription by its admin API key (see `parseSubscriptionKey`).
+  get_tracked_subscription =
+    ChainProcessor.methodSchemas.get_tracked_subscription.implement((key) => {
+      const id = parseSubscriptionKey(key);
+
+      if (id === undefined) return undefined;
+
+      const subscription = this.#find_subscription(id);
+
+      return subscription
+        ? this.#describe_subscription(id, subscription)
+        : undefined;
+    });
+
+  // Manually stops tracking a subscription, clearing its pending txs and attempts. Returns whether it was tracked.
+  untrack_subscription =
+    ChainProcessor.methodSchemas.untrack_subscription.implement(async (key) => {
+      const id = parseSubscriptionKey(key);
+
+      if (id === undefined || !this.#find_subscription(id)) return false;
+
+      await this.#attempts_lock.runExclusive(() => {
+        this.#keys_for_subscription(id, this.#attempts).forEach(
+          ([attemptsKey]) => delete this.#attempts[attemptsKey]
+        );
+
+        this.#stop_tracking(id, Array.isArray(id));
+      });
+
+      console.info('Untracked subscription via admin API', { id: key });
+
+      return true;
+    });
+
+  // Clears the pending tx, attempts, retry delay and replacement state for a subscription's current interval,
+  // so that it is re-processed on the next loop. Intervals that are still being processed (i.e. no tx sent
+  // yet), and subscriptions that aren't active, can't be retried.
+  retry_subscription =
+    ChainProcessor.methodSchemas.retry_subscription.implement(async (key) => {
+      const id = parseSubscriptionKey(key);
+      const subscription =
+        id === undefined ? undefined : this.#find_subscription(id);
+
+      if (id === undefined || !subscription) return 'not_found';
+      if (!subscription.active) return 'inactive';
+
+      const pendingKey = makePendingOrAttemptsKey(id, subscription.interval);
+
+      return this.#attempts_lock.runExclusive(() => {
+        if (this.#pending[pendingKey] === BLOCKED) return 'processing';
+
+        const txHash = this.#pending[pendingKey];
+
+        delete this.#pending[pendingKey];
+        delete this.#attempts[pendingKey];
+        delete this.#failures[pendingKey];
+        delete this.#deferred[pendingKey];
+        delete this.#sent_txs[pendingKey];
+
+        console.info('Retrying subscription via admin API', {
+          id: key,
+          interval: subscription.interval,
+          tx_hash: txHash,
+        });
+
+        this.#wake?.abort();
+
+        return 'retried';
+      });
+    });
+
   // Tracks SubscriptionCreatedMessage.
   #track_created_message =
     ChainProcessor.methodSchemas._track_created_message.implement((msg) => {
@@ -443,15 +920,130 @@ export class ChainProcessor extends AsyncTask {
       }
     );
 
-  // Prunes pending txs that have failed to allow for re-processing.
+  // Replaces a pending tx that has not been mined within the gas strategy's replacement timeout with the
+  // same tx (and nonce) with bumped fees. Gives up after the max number of replacements, or if another
+  // replacement would not be mined before the subscription interval ends.
+  #replace_stuck_tx = ChainProcessor.methodSchemas._replace_stuck_tx.implement(
+    async (key, tx_hash) => {
+      const gasStrategy = this.#wallet.gas_strategy;
+
+      if (!gasStrategy) return;
+
+      // Txs are timed from when they are first seen pending, which is at most one loop after being sent.
+      const sent = (this.#sent_txs[key] ??= {
+        sent_at: Date.now(),
+        hashes: [tx_hash],
+        gave_up: false,
+      });
+
+      // Any of the replaced txs may be mined instead of their replacement.
+      for (const hash of sent.hashes) {
+        if (hash === tx_hash) continue;
+
+        const [found] = await this.#rpc.get_tx_success(hash);
+
+        if (found) {
+          this.#pending[key] = hash;
+
+          console.info('Replaced tx was mined', { key, tx_hash: hash });
+
+          return;
+        }
+      }
+
+      if (
+        sent.gave_up ||
+        Date.now() - sent.sent_at < gasStrategy.replacement_timeout
+      )
+        return;
+
+      const [id, interval] = parsePendingOrAttemptsKey(key);
+      const intervalEnd =
+        this.#find_subscription(id)?.get_interval_end(interval);
+      const replacements = sent.hashes.length - 1;
+
+      if (
+        replacements >= gasStrategy.max_replacements ||
+        (intervalEnd !== undefined &&
+          getUnixTimestamp() + gasStrategy.replacement_timeout / 1_000 >=
+            intervalEnd)
+      ) {
+        sent.gave_up = true;
+
+        console.warn('Giving up on replacing stuck tx', {
+          id,
+          interval,
+          tx_hash,
+          replacements,
+        });
+
+        return;
+      }
+
+      try {
+        const replacement = await this.#wallet.replace_transaction(tx_hash);
+
+        if (!replacement) {
+          // Dropped txs are evicted, so that the interval is re-processed with a new tx (reusing its nonce).
+          if (!(await this.#rpc.get_transaction(tx_hash))) {
+            delete this.#pending[key];
+
+            console.info('Evicted dropped tx', { id, interval, tx_hash });
+
+            return;
+          }
+
+          sent.gave_up = true;
+
+          console.warn('Could not replace stuck tx', { id, interval, tx_hash });
+
+          return;
+        }
+
+        sent.sent_at = Date.now();
+        sent.hashes.push(replacement);
+        this.#deliveries[key]?.hashes.push(replacement);
+        this.#pending[key] = replacement;
+
+        console.info('Replaced stuck tx', {
+          id,
+          interval,
+          tx_hash,
+          replacement,
+          replacements: replacements + 1,
+        });
+      } catch (err) {
+        // Retried on the next loop, e.g. if a replaced tx was mined in the meantime.
+        console.warn('Failed to replace stuck tx', {
+          id,
+          interval,
+          tx_hash,
+          err: `${err}`,
+        });
+      }
+    }
+  );
+
+  // Prunes pending txs that have failed to allow for re-processing, and replaces stuck txs.
   #prune_failed_txs = ChainProcessor.methodSchemas._prune_failed_txs.implement(
     async () => {
       const failedTxs: string[] = [];
+      const succeededTxs: string[] = [];
 
       await this.#attempts_lock.runExclusive(async () => {
         const pendingCopy = cloneDeep(this.#pending);
         const pendingCopyKeys = Object.keys(pendingCopy);
 
+        // Drop replacement state of txs that are no longer pending, e.g. evicted ones.
+        Object.keys(this.#sent_txs).forEach((key) => {
+          if (!pendingCopy[key]) delete this.#sent_txs[key];
+        });
+
+        // Drop failure reasons of intervals whose attempts are no longer counted.
+        Object.keys(this.#failures).forEach((key) => {
+          if (!this.#attempts[key]) delete this.#failures[key];
+        });
+
         for (let i = 0; i < pendingCopyKeys.length; i++) {
           const key = pendingCopyKeys[i];
           const txHash = pendingCopy[key];
@@ -459,31 +1051,36 @@ export class ChainProcessor extends AsyncTask {
           if (txHash !== BLOCKED) {
             const [found, success] = await this.#rpc.get_tx_success(txHash);
 
-            if (!found) continue;
+            if (!found) {
+              await this.#replace_stuck_tx(key, txHash);
+
+              continue;
+            }
+
+            delete this.#sent_txs[key];
+
             if (success) {
               if (this.#attempts[key]) delete this.#attempts[key];
+
+              succeededTxs.push(key);
             } else {
               failedTxs.push(key);
             }
           }
         }
 
-        // Evict failed txs.
+        // Evict failed txs whose intervals can be retried, so that they are reprocessed.
         failedTxs.forEach((key) => {
-          if (this.#attempts[key]) {
-            this.#attempts[key] += 1;
-          } else {
-            this.#attempts[key] = 1;
-          }
-
-          const attemptCount = this.#attempts[key];
-
-          console.debug('attempt count', { count: attemptCount, key });
-
-          // Evict failed tx if it has less than 3 failed attempts so that it can be reprocessed.
-          if (attemptCount < 3) {
+          const txHash = this.#pending[key];
+
+          if (
+            this.#record_failed_attempt(
+              key,
+              'revert',
+              `Delivery tx reverted: ${txHash}`
+            )
+          ) {
             const [id, interval] = parsePendingOrAttemptsKey(key);
-            const txHash = this.#pending[key];
 
             delete this.#pending[key];
 
@@ -491,14 +1088,138 @@ export class ChainProcessor extends AsyncTask {
               id,
               interval,
               tx_hash: txHash,
-              retries: attemptCount,
+              retries: this.#attempts[key],
             });
           }
         });
+
+        await this.#record_earnings();
+
+        // Once their tx succeeds, delegated subscriptions exist on-chain (where they're tracked by the listener
+        // from then on), and callback subscriptions have no further intervals, so they stop being tracked.
+        succeededTxs.forEach((key) => {
+          const [id, interval] = parsePendingOrAttemptsKey(key);
+
+          if (Array.isArray(id)) {
+            if (
+              !this.#delegate_subscriptions[
+                makeDelegateSubscriptionsKey(id[0], id[1])
+              ]
+            )
+              return;
+
+            console.info('Delegated subscription completed for interval', {
+              id,
+              interval,
+            });
+
+            this.#stop_tracking(id, true);
+          } else if (this.#subscriptions[id]?.is_callback) {
+            console.info('Callback subscription completed', { id, interval });
+
+            this.#stop_tracking(id, false);
+          }
+        });
       });
     }
   );
 
+  // Whether a subscription interval's failed attempts can no longer be retried, i.e. it has run out of
+  // attempts or its last attempt failed with an error that isn't retried.
+  #attempts_exhausted =
+    ChainProcessor.methodSchemas._attempts_exhausted.implement((key) => {
+      const attempts = this.#attempts[key];
+
+      if (!attempts) return false;
+
+      // Failures aren't persisted, so attempts restored on startup are counted as reverts.
+      const lastFailure = this.#failures[key]?.at(-1);
+
+      return !this.#delivery_retry.should_retry(
+        attempts,
+        lastFailure?.class ?? 'revert'
+      );
+    });
+
+  // Counts a failed delivery attempt of a subscription interval, along with why it failed. Returns whether
+  // it can be retried, in which case it is deferred by the retry policy's delay.
+  #record_failed_attempt =
+    ChainProcessor.methodSchemas._record_failed_attempt.implement(
+      (key, error_class, reason) => {
+        const attempts = (this.#attempts[key] ?? 0) + 1;
+        const [id, interval] = parsePendingOrAttemptsKey(key);
+
+        this.#attempts[key] = attempts;
+        (this.#failures[key] ??= []).push(
+          this.#delivery_retry.record_failure(attempts, error_class, reason, {
+            id,
+            interval,
+          })
+        );
+
+        if (this.#attempts_exhausted(key)) return false;
+
+        const retryDelay = this.#delivery_retry.get_delay(attempts);
+
+        if (retryDelay) this.#deferred[key] = Date.now() + retryDelay;
+
+        return true;
+      }
+    );
+
+  // Records confirmed deliveries in the earnings ledger. Deliveries are tracked apart from `#pending`, since
+  // pending txs are dropped as soon as their subscription stops being tracked (e.g. once completed).
+  #record_earnings = ChainProcessor.methodSchemas._record_earnings.implement(
+    async () => {
+      if (!this.#earnings) return;
+
+      for (const [key, delivery] of Object.entries(this.#deliveries)) {
+        const pendingTx = this.#pending[key];
+
+        // Follows replacements of stuck txs.
+        if (pendingTx && pendingTx !== BLOCKED) delivery.tx_hash = pendingTx;
+
+        const { hashes, ...earning } = delivery;
+
+        try {
+          let receipt: TransactionReceipt | undefined;
+
+          // A replaced tx may be mined instead of its replacement, even after the interval stopped being tracked.
+          for (const hash of new Set([earning.tx_hash, ...hashes])) {
+            receipt = await this.#rpc.get_tx_receipt(hash);
+
+            if (receipt) break;
+          }
+
+          if (!receipt) {
+            // None of the txs were mined, and they were dropped along with their interval, so they never will be.
+            if (!pendingTx) delete this.#deliveries[key];
+
+            continue;
+          }
+
+          delete this.#deliveries[key];
+
+          if (receipt.status !== 'success') continue;
+
+          await this.#earnings.record({
+            ...earning,
+            tx_hash: receipt.transactionHash,
+            gas_used: receipt.gasUsed,
+            gas_cost: receipt.gasUsed * receipt.effectiveGasPrice,
+            delivered_at: getUnixTimestamp(),
+          });
+        } catch (err) {
+          console.error('Failed to record earning', {
+            run: key,
+            tx_hash: delivery.tx_hash,
+            err: `${err}`,
+          });
+        }
+      }
+    }
+  );
+
   // Stops tracking subscription or delegated subscription.
   #stop_tracking = ChainProcessor.methodSchemas._stop_tracking.implement(
     (subscription_id, delegated) => {
@@ -650,7 +1371,7 @@ export class ChainProcessor extends AsyncTask {
           await this.#wallet_checker.has_enough_balance(
             sub.wallet,
             sub.payment_token,
-            BigInt(sub.payment_amount)
+            sub.payment_amount
           );
 
         if (!hasBalance) {
@@ -706,9 +1427,7 @@ export class ChainProcessor extends AsyncTask {
         if (!txHash || txHash === BLOCKED) return false;
 
         const [found, success] = await this.#rpc.get_tx_success_with_retries(
-          txHash,
-          undefined,
-          undefined
+          txHash
         );
 
         // We have already submitted the transaction and it was successful.
@@ -766,7 +1485,7 @@ export class ChainProcessor extends AsyncTask {
         if (this.#attempts[key]) {
           const attemptCount = this.#attempts[key];
 
-          if (attemptCount >= 3) {
+          if (this.#attempts_exhausted(key)) {
             console.error(
               'Subscription has exceeded the maximum number of attempts',
               {
@@ -774,12 +1493,14 @@ export class ChainProcessor extends AsyncTask {
                 interval: sub_key[1],
                 tx_hash: this.#pending[key],
                 attempts: attemptCount,
+                failures: this.#failures[key],
               }
             );
 
             console.info('Clearing attempts', { sub_key });
 
             delete this.#attempts[key];
+            delete this.#failures[key];
 
             await this.#attempts_lock.runExclusive(async () => {
               // Delete subcription.
@@ -831,6 +1552,76 @@ export class ChainProcessor extends AsyncTask {
       }
     );
 
+  // Returns the configured price (in wei) of one base unit of a payment token, scaled by 1e18.
+  #token_price = ChainProcessor.methodSchemas._token_price.implement(
+    (token) => {
+      if (token === ZERO_ADDRESS) return parseEther('1');
+
+      const entry = Object.entries(this.#profitability.token_prices).find(
+        ([address]) => address.toLowerCase() === token.toLowerCase()
+      );
+
+      return entry ? parseEther(entry[1]) : undefined;
+    }
+  );
+
+  // Compares a subscription's payment with the estimated cost of delivering its output, and defers the
+  // interval if the payment doesn't cover the cost plus the configured margin. Returns whether it was deferred.
+  #defer_if_unprofitable =
+    ChainProcessor.methodSchemas._defer_if_unprofitable.implement(
+      async (pending_key, subscription, signature) => {
+        const { enabled, min_margin, defer_period } = this.#profitability;
+
+        if (!enabled) return false;
+
+        const price = this.#token_price(subscription.payment_token);
+
+        if (price === undefined) {
+          console.debug('Skipped profitability check for unpriced token', {
+            id: subscription.id,
+            token: subscription.payment_token,
+          });
+
+          return false;
+        }
+
+        let cost: bigint;
+
+        try {
+          cost = await this.#wallet.estimate_delivery_cost(
+            subscription,
+            signature
+          );
+        } catch (err) {
+          // Delivery errors are surfaced when delivering, so subscriptions are not held back by estimation.
+          console.warn('Failed to estimate delivery cost', {
+            id: subscription.id,
+            err: `${err}`,
+          });
+
+          return false;
+        }
+
+        const payout = (subscription.payment_amount * price) / 10n ** 18n;
+        const minPayout =
+          (cost * BigInt(Math.round((100 + min_margin) * 100))) / 10_000n;
+
+        if (payout >= minPayout) return false;
+
+        this.#deferred[pending_key] = Date.now() + defer_period;
+
+        console.info('Deferred unprofitable subscription', {
+          id: subscription.id,
+          interval: subscription.interval,
+          payout,
+          cost,
+          min_margin,
+        });
+
+        return true;
+      }
+    );
+
   // Simulate a deliver compute tx, and stop tracking if it reverts with an infernet-related error.
   #stop_tracking_if_infernet_errors_caught_in_simulation =
     ChainProcessor.methodSchemas._stop_tracking_if_infernet_errors_caught_in_simulation.implement(
@@ -932,7 +1723,8 @@ export class ChainProcessor extends AsyncTask {
           subscription.id,
           containerInput,
           subscription.containers,
-          subscription.requires_proof
+          subscription.requires_proof,
+          this.#chain_id
         );
       }
     );
@@ -950,7 +1742,7 @@ export class ChainProcessor extends AsyncTask {
         await this.#payment_wallet.approve(
           this.#rpc.account,
           subscription.payment_token,
-          BigInt(subscription.payment_amount)
+          subscription.payment_amount
         );
       }
     );
@@ -960,6 +1752,14 @@ export class ChainProcessor extends AsyncTask {
     ChainProcessor.methodSchemas._process_subscription.implement(
       async (id, subscription, delegated, delegated_params) => {
         const interval = subscription.interval;
+        const pendingKey = makePendingOrAttemptsKey(id, interval);
+
+        if (this.#deferred[pendingKey] > Date.now()) return;
+
+        // Drop expired deferrals, including those of past intervals and untracked subscriptions.
+        Object.entries(this.#deferred).forEach(([key, until]) => {
+          if (until <= Date.now()) delete this.#deferred[key];
+        });
 
         console.info('Processing subscription', {
           id,
@@ -971,7 +1771,6 @@ export class ChainProcessor extends AsyncTask {
         if (await this.#stop_tracking_sub_if_missed_deadline(id, delegated))
           return;
 
-        const pendingKey = makePendingOrAttemptsKey(id, interval);
         this.#pending[pendingKey] = BLOCKED;
 
         if (
@@ -983,6 +1782,18 @@ export class ChainProcessor extends AsyncTask {
         )
           return;
 
+        if (
+          await this.#defer_if_unprofitable(
+            pendingKey,
+            subscription,
+            delegated_params ? delegated_params[0] : undefined
+          )
+        ) {
+          delete this.#pending[pendingKey];
+
+          return;
+        }
+
         const containerResults = await this.#execute_on_containers(
           subscription,
           delegated,
@@ -1085,6 +1896,19 @@ export class ChainProcessor extends AsyncTask {
               delegated,
             });
 
+            // Errors the retry policy retries (e.g. network errors) leave the interval to be reprocessed.
+            if (
+              this.#record_failed_attempt(
+                pendingKey,
+                classifyError(err),
+                err.shortMessage ?? `${err}`
+              )
+            ) {
+              delete this.#pending[pendingKey];
+
+              return;
+            }
+
             if (subscriptionIsCallback)
               this.#stop_tracking(subscription.id, delegated);
 
@@ -1094,6 +1918,19 @@ export class ChainProcessor extends AsyncTask {
 
         this.#pending[pendingKey] = txHash;
 
+        if (this.#earnings)
+          this.#deliveries[pendingKey] = {
+            subscription_id: Array.isArray(id)
+              ? makeDelegateSubscriptionsKey(id[0], id[1])
+              : `${id}`,
+            interval,
+            containers: subscription.containers,
+            token: subscription.payment_token,
+            amount: subscription.payment_amount,
+            tx_hash: txHash,
+            hashes: [txHash],
+          };
+
         console.info('Sent tx', { id, interval, delegated, tx_hash: txHash });
       }
     );
@@ -1114,121 +1951,481 @@ export class ChainProcessor extends AsyncTask {
       default:
         console.error('Unknown message type to track', { message: msg });
     }
+
+    this.#wake?.abort();
   });
 
-  // Core ChainProcessor event loop.
-  run_forever = ChainProcessor.methodSchemas.run_forever.implement(async () => {
-    while (!this.shutdown) {
-      this.#prune_failed_txs();
+  // Rolls back state that may have been invalidated by a chain reorg: stops tracking subscriptions created
+  // after `last_subscription_id` (the listener re-syncs them), evicts pending txs that the node no longer
+  // knows about so that their intervals are re-processed, and forgets cached node replies.
+  rollback = ChainProcessor.methodSchemas.rollback.implement(
+    async (last_subscription_id) => {
+      Object.keys(this.#subscriptions)
+        .map(Number)
+        .filter((id) => id > last_subscription_id)
+        .forEach((id) => this.#stop_tracking(id, false));
 
-      for (const subId in this.#subscriptions) {
-        const subscriptionId = parseInt(subId);
-        const subscription: Subscription = this.#subscriptions[subId];
+      Object.values(this.#subscriptions).forEach((subscription) =>
+        subscription.reset_node_replied()
+      );
 
-        // Checks if sub owner has a valid wallet & enough funds.
-        if (await this.#stop_tracking_if_sub_owner_cant_pay(subscriptionId))
-          continue;
+      await this.#attempts_lock.runExclusive(async () => {
+        for (const [key, txHash] of Object.entries(this.#pending)) {
+          if (txHash === BLOCKED) continue;
 
-        // Since cancellation means `Subscription.active_at === UINT32_MAX`, we should
-        // check if the subscription is cancelled before checking activation.
-        if (await this.#stop_tracking_if_cancelled(subscriptionId)) continue;
+          // Only txs the node no longer knows about are evicted. RPC errors propagate, so that valid txs
+          // aren't evicted (and delivered twice) because of a transient failure.
+          if (await this.#rpc.get_transaction(txHash)) continue;
 
-        // Skips if subscription is not active.
-        if (!subscription.active) {
-          console.info('Ignored inactive subscription', {
-            id: subId,
-            diff: subscription.active_at - getUnixTimestamp(),
-          });
+          delete this.#pending[key];
 
-          continue;
+          console.info('Evicted reorged tx', { run: key, tx_hash: txHash });
         }
+      });
 
-        if (await this.#stop_tracking_sub_if_completed(subscription)) continue;
-        if (this.#stop_tracking_sub_if_missed_deadline(subscriptionId, false))
-          continue;
-        if (
-          await this.#stop_tracking_if_maximum_retries_reached(
-            [subscriptionId, subscription.interval],
-            false
-          )
-        )
-          continue;
+      console.warn('Rolled back chain processor state', {
+        last_sub_id: last_subscription_id,
+      });
+    }
+  );
 
-        // Check if subscription needs processing.
-        // 1. Response for current interval must not be in pending queue.
-        // 2. Response for current interval must not have already been confirmed on-chain.
-        if (
-          !this.#has_subscription_tx_pending_in_interval(subscriptionId) &&
-          !(await this.#has_responded_onchain_in_interval(subscriptionId))
-        ) {
-          this.#process_subscription(
-            subscriptionId,
-            subscription,
-            false,
-            undefined
-          );
-        }
+  // Stops tracking a subscription that was cancelled on-chain (e.g. as seen in Coordinator event logs).
+  track_cancellation =
+    ChainProcessor.methodSchemas.track_cancellation.implement(
+      (subscription_id) => {
+        if (!this.#subscriptions[subscription_id]) return;
+
+        console.info('Subscription cancelled', { id: subscription_id });
+
+        this.#stop_tracking(subscription_id, false);
       }
+    );
 
-      // Make deep copy to avoid mutation during iteration.
-      const delegateSubscriptionsCopy: {
-        [key: string]: DelegateSubscriptionData;
-      } = cloneDeep(this.#delegate_subscriptions);
+  // Handles a subscription response delivered on-chain (e.g. as seen in Coordinator event logs), by
+  // checking whether the subscription is now completed or, if `node` is this node, has been responded to.
+  track_fulfillment = ChainProcessor.methodSchemas.track_fulfillment.implement(
+    async (subscription_id, node) => {
+      const subscription = this.#subscriptions[subscription_id];
 
-      for (const delegateSubscriptionId in delegateSubscriptionsCopy) {
-        const parsedDelegateSubscriptionId = delegateSubscriptionId.split('-');
-        const [subOwner, sigNonce]: DelegateSubscriptionID = [
-          parsedDelegateSubscriptionId[0] as Hex,
-          parseInt(parsedDelegateSubscriptionId[1]),
-        ];
-        const subscription: Subscription =
-          delegateSubscriptionsCopy[delegateSubscriptionId][0];
+      if (!subscription?.active) return;
+
+      console.debug('Subscription fulfilled', { id: subscription_id, node });
+
+      if (await this.#stop_tracking_sub_if_completed(subscription)) return;
+
+      if (node.toLowerCase() === this.#wallet.address.toLowerCase())
+        await this.#has_responded_onchain_in_interval(subscription_id);
+    }
+  );
+
+  // Persists tracked subscriptions, pending txs and attempts to the state store (if any), so that they
+  // survive restarts. Delegate subscriptions in particular cannot be re-synced from chain.
+  #persist_state = ChainProcessor.methodSchemas._persist_state.implement(
+    async () => {
+      if (!this.#state_store) return true;
+
+      const persistSubscription = (subscription: Subscription) => ({
+        id: subscription.id,
+        params: subscription.get_tx_inputs(),
+      });
+      const state: ProcessorState = {
+        subscriptions: Object.values(this.#subscriptions).map(
+          persistSubscription
+        ),
+        delegate_subscriptions: Object.entries(
+          this.#delegate_subscriptions
+        ).reduce(
+          (acc, [key, [subscription, signature, data]]) => ({
+            ...acc,
+            [key]: [persistSubscription(subscription), signature, data],
+          }),
+          {}
+        ),
+        pending: this.#pending,
+        attempts: this.#attempts,
+        deliveries: this.#deliveries,
+      };
+      const serialized = JSON.stringify(state);
+
+      if (serialized === this.#persisted_state) return true;
+
+      try {
+        await this.#state_store.set_state(PROCESSOR_STATE_KEY, serialized);
+
+        this.#persisted_state = serialized;
+
+        return true;
+      } catch (err) {
+        console.error('Failed to persist chain processor state', {
+          err: `${err}`,
+        });
+
+        return false;
+      }
+    }
+  );
+
+  // Persists state now, returning whether it succeeded. Called by the listener before it checkpoints past
+  // subscriptions it relayed, so that they aren't lost if the node stops before the next processing loop.
+  persist = ChainProcessor.methodSchemas.persist.implement(() =>
+    this.#persist_state()
+  );
+
+  // Restores persisted state, and reconciles pending txs against their receipts: successful and failed txs
+  // are kept (the latter are counted as attempts by `#prune_failed_txs`), while intervals that were still
+  // being processed, or whose txs the node no longer knows about, are evicted so that they are re-processed.
+  #rehydrate_state = ChainProcessor.methodSchemas._rehydrate_state.implement(
+    async () => {
+      if (!this.#state_store) return;
+
+      const serialized = await this.#state_store.get_state(PROCESSOR_STATE_KEY);
+
+      if (!serialized) return;
+
+      const state = ProcessorStateSchema.parse(JSON.parse(serialized));
+      const restoreSubscription = ({ id, params }) => {
+        const [
+          owner,
+          active_at,
+          period,
+          frequency,
+          redundancy,
+          containers_hash,
+          lazy,
+          verifier,
+          payment_amount,
+          payment_token,
+          wallet,
+        ] = params;
+
+        return new Subscription(
+          id,
+          this.#container_lookup,
+          owner,
+          active_at,
+          period,
+          frequency,
+          redundancy,
+          containers_hash,
+          lazy,
+          verifier,
+          payment_amount,
+          payment_token,
+          wallet
+        );
+      };
+
+      state.subscriptions.forEach((persisted) => {
+        const subscription = restoreSubscription(persisted);
+
+        // Containers may have been removed from the node's config since the state was persisted.
+        if (!subscription.containers.length) return;
+
+        this.#subscriptions[subscription.id] = subscription;
+      });
+
+      Object.entries(state.delegate_subscriptions).forEach(
+        ([key, [persisted, signature, data]]) => {
+          const subscription = restoreSubscription(persisted);
+
+          if (!subscription.containers.length) return;
 
-        if (!subscription.active) {
-          console.debug('Ignored inactive subscription', {
-            id: delegateSubscriptionId,
-            diff: subscription.active_at - getUnixTimestamp(),
+          this.#delegate_subscriptions[key] = [subscription, signature, data];
+        }
+      );
+
+      this.#attempts = ChainProcessor.fieldSchemas._attempts.parse(
+        state.attempts
+      );
+      this.#deliveries = ChainProcessor.fieldSchemas._deliveries.parse(
+        state.deliveries
+      );
+
+      for (const [key, txHash] of Object.entries(state.pending)) {
+        if (txHash === BLOCKED) continue;
+
+        const [found] = await this.#rpc.get_tx_success(txHash);
+
+        // Txs still in the mempool are kept, so that their intervals aren't delivered twice. Only txs the
+        // node no longer knows about (e.g. dropped while it was down) are evicted, to be re-processed.
+        if (!found && !(await this.#rpc.get_transaction(txHash))) {
+          console.info('Evicted persisted tx unknown to the node', {
+            run: key,
+            tx_hash: txHash,
           });
 
           continue;
         }
 
-        if (
-          await this.#stop_tracking_delegated_sub_if_completed([
-            subOwner,
-            sigNonce,
-          ])
+        this.#pending[key] = txHash;
+      }
+
+      console.info('Restored chain processor state', {
+        subscriptions: Object.keys(this.#subscriptions).length,
+        delegate_subscriptions: Object.keys(this.#delegate_subscriptions)
+          .length,
+        pending: Object.keys(this.#pending).length,
+      });
+    }
+  );
+
+  // Core ChainProcessor event loop.
+  // Returns the time (ms) from which a subscription needs processing, given its current interval's state.
+  #next_due = ChainProcessor.methodSchemas._next_due.implement(
+    (id, subscription) =>
+      getNextDue(
+        subscription,
+        (interval) => {
+          const key = makePendingOrAttemptsKey(id, interval);
+
+          return {
+            handled:
+              this.#processing[key] !== undefined ||
+              !!this.#pending[key] ||
+              subscription.get_node_replied(interval),
+            dispatched_at: this.#dispatched[key],
+            deferred_until: this.#deferred[key],
+          };
+        },
+        this.#scheduler.poll_period
+      )
+  );
+
+  // Returns the value (in wei, scaled by 1e18) of a subscription's payment, or 0 if it pays in an unpriced token.
+  #payment_value = ChainProcessor.methodSchemas._payment_value.implement(
+    (subscription) =>
+      (this.#token_price(subscription.payment_token) ?? 0n) *
+      subscription.payment_amount
+  );
+
+  // Returns tracked subscriptions by when they need processing (see `compareScheduled`).
+  #schedule = ChainProcessor.methodSchemas._schedule.implement(() => {
+    const now = Date.now();
+    const scheduled: ScheduledSubscription[] = [
+      ...Object.entries(this.#subscriptions).map(([id, subscription]) => ({
+        id: parseInt(id),
+        subscription,
+        delegated: false,
+      })),
+      ...Object.entries(this.#delegate_subscriptions).map(
+        ([key, [subscription, signature, data]]) => {
+          const [subOwner, sigNonce] = key.split('-');
+
+          return {
+            id: [subOwner as Hex, parseInt(sigNonce)] as DelegateSubscriptionID,
+            subscription,
+            delegated: true,
+            delegated_params: [signature, data] as DelegatedParams,
+          };
+        }
+      ),
+    ].map((entry) => ({
+      ...entry,
+      due: this.#next_due(entry.id, entry.subscription),
+    }));
+    const currentKeys = new Set(
+      scheduled
+        .filter(({ subscription }) => subscription.active)
+        .map(({ id, subscription }) =>
+          makePendingOrAttemptsKey(id, subscription.interval)
         )
-          continue;
+    );
+
+    // Forget dispatches of past intervals and untracked subscriptions.
+    Object.keys(this.#dispatched).forEach((key) => {
+      if (!currentKeys.has(key)) delete this.#dispatched[key];
+    });
+
+    return scheduled.sort(
+      compareScheduled(now, {
+        dispatched_at: ({ id, subscription }) =>
+          this.#dispatched[
+            makePendingOrAttemptsKey(id, subscription.interval)
+          ] ?? 0,
+        deadline: ({ subscription }) =>
+          subscription.get_interval_end(subscription.interval) ?? Infinity,
+        payment_value: ({ subscription }) => this.#payment_value(subscription),
+      })
+    );
+  });
 
+  // Checks whether a due subscription's current interval needs processing, stopping tracking subscriptions
+  // that are cancelled, completed, expired or can't be paid for.
+  #needs_processing = ChainProcessor.methodSchemas._needs_processing.implement(
+    async (id, subscription, delegated) => {
+      if (!delegated) {
+        // Checks if sub owner has a valid wallet & enough funds.
         if (
-          await this.#stop_tracking_if_maximum_retries_reached(
-            [[subOwner, sigNonce], subscription.interval],
-            true
-          )
+          await this.#stop_tracking_if_sub_owner_cant_pay(id as SubscriptionID)
         )
+          return false;
+
+        // Since cancellation means `Subscription.active_at === UINT32_MAX`, we should
+        // check if the subscription is cancelled before checking activation.
+        if (await this.#stop_tracking_if_cancelled(id as SubscriptionID))
+          return false;
+
+        if (!subscription.active) return false;
+
+        if (await this.#stop_tracking_sub_if_completed(subscription))
+          return false;
+        if (this.#stop_tracking_sub_if_missed_deadline(id, false)) return false;
+      } else if (
+        await this.#stop_tracking_delegated_sub_if_completed(
+          id as DelegateSubscriptionID
+        )
+      ) {
+        return false;
+      }
+
+      if (
+        await this.#stop_tracking_if_maximum_retries_reached(
+          [id, subscription.interval],
+          delegated
+        )
+      )
+        return false;
+
+      // Check if subscription needs processing.
+      // 1. Response for current interval must not be in pending queue.
+      // 2. Response for current interval must not have already been confirmed on-chain. Unlike
+      // subscriptions, delegate subscriptions cannot have already confirmed on-chain txs, since
+      // those would be tracked by their on-chain ID and not as a delegate subscription.
+      if (this.#has_subscription_tx_pending_in_interval(id)) return false;
+
+      return (
+        delegated ||
+        !(await this.#has_responded_onchain_in_interval(id as SubscriptionID))
+      );
+    }
+  );
+
+  // Processes a due subscription in the background, if it needs processing.
+  #dispatch = ChainProcessor.methodSchemas._dispatch.implement(
+    async ({ id, subscription, delegated, delegated_params }) => {
+      const interval = subscription.interval;
+      const key = makePendingOrAttemptsKey(id, interval);
+
+      this.#dispatched[key] = Date.now();
+
+      if (!(await this.#needs_processing(id, subscription, delegated))) return;
+
+      this.#processing[key] = Date.now();
+
+      this.#process_subscription(id, subscription, delegated, delegated_params)
+        .catch((err) =>
+          console.error('Failed to process subscription', {
+            id,
+            interval,
+            delegated,
+            err: `${err}`,
+          })
+        )
+        .finally(() => {
+          delete this.#processing[key];
+
+          // Wake the processing loop to hand the freed slot to a waiting subscription.
+          if (this.#backlogged) this.#wake?.abort();
+        });
+    }
+  );
+
+  // Processes subscriptions as they become due, at most `scheduler.max_concurrent` at once, sleeping until
+  // the next one is due (or a new head, or a new subscription, wakes the loop).
+  run_forever = ChainProcessor.methodSchemas.run_forever.implement(async () => {
+    const { max_concurrent, poll_period } = this.#scheduler;
+
+    while (!this.shutdown) {
+      // Set up before dispatching, so that slots freed during this run wake the next sleep.
+      const wake = new AbortController();
+
+      this.#wake = ChainProcessor.fieldSchemas._wake.parse(wake);
+      this.#backlogged = false;
+
+      // Pruning polls receipts, so it runs alongside dispatching, skipping loop runs while one is in flight.
+      if (!this.#pruning) {
+        this.#pruning = true;
+
+        this.#prune_failed_txs()
+          .catch((err) =>
+            console.error('Failed to prune failed txs', { err: `${err}` })
+          )
+          .finally(() => {
+            this.#pruning = false;
+          });
+      }
+
+      let nextDue = Infinity;
+
+      for (const scheduled of this.#schedule()) {
+        if (scheduled.due > Date.now()) {
+          nextDue = Math.min(nextDue, scheduled.due);
+
           continue;
+        }
 
-        // Check if subscription needs processing
-        // 1. Response for current interval must not be in pending queue
-        // Unlike subscriptions, delegate subscriptions cannot have already
-        // confirmed on-chain txs, since those would be tracked by their
-        // on-chain ID and not as a delegate subscription
-        if (
-          !this.#has_subscription_tx_pending_in_interval([subOwner, sigNonce])
-        ) {
-          this.#process_subscription([subOwner, sigNonce], subscription, true, [
-            delegateSubscriptionsCopy[delegateSubscriptionId][1],
-            delegateSubscriptionsCopy[delegateSubscriptionId][2],
-          ]);
+        if (Object.keys(this.#processing).length >= max_concurrent) {
+          this.#backlogged = true;
+
+          console.debug('Processing slots full, deferring due subscriptions', {
+            processing: Object.keys(this.#processing).length,
+          });
+
+          break;
+        }
+
+        // Checking whether a subscription needs processing makes RPC calls, whose errors shouldn't stop the loop.
+        try {
+          await this.#dispatch(scheduled);
+        } catch (err) {
+          console.error('Failed to dispatch subscription', {
+            id: scheduled.id,
+            delegated: scheduled.delegated,
+            err: `${err}`,
+          });
         }
       }
 
-      await delay(100);
+      await this.#persist_state();
+
+      // Pending txs only confirm on new blocks, so they're polled unless new heads wake the loop.
+      const hasPendingTxs = Object.values(this.#pending).some(
+        (txHash) => txHash !== BLOCKED
+      );
+      const maxSleep =
+        hasPendingTxs && !this.#rpc.subscribed_to_heads
+          ? poll_period
+          : NEW_HEAD_TIMEOUT;
+
+      await this.#rpc.wait_for_block(
+        Math.max(Math.min(nextDue - Date.now(), maxSleep), PROCESSING_PERIOD),
+        wake.signal
+      );
     }
   });
 
-  setup = ChainProcessor.methodSchemas.setup.implement(() => {});
+  // Restores persisted state once, returning whether it succeeded. Called by `setup`, and by the listener,
+  // which only resumes from its checkpoint if the subscriptions synced before it were restored.
+  restore = ChainProcessor.methodSchemas.restore.implement(() => {
+    this.#restored ??= this.#rehydrate_state().then(
+      () => true,
+      (err) => {
+        console.error('Failed to restore chain processor state', {
+          err: `${err}`,
+        });
 
-  cleanup = ChainProcessor.methodSchemas.cleanup.implement(() => {});
+        return false;
+      }
+    );
+
+    return this.#restored;
+  });
+
+  setup = ChainProcessor.methodSchemas.setup.implement(async () => {
+    await this.restore();
+  });
+
+  cleanup = ChainProcessor.methodSchemas.cleanup.implement(async () => {
+    await this.#persist_state();
+  });
 }
@@ -82,7 +82,7 @@ export class Reader {
               data.containerId,
               data.lazy,
               data.verifier,
-              Number(data.paymentAmount),
+              data.paymentAmount,
               data.paymentToken,
               data.wallet
             )
@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import {
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  NonceTooHighError,
+  NonceTooLowError,
+  SocketClosedError,
+  TimeoutError,
+  WebSocketRequestError,
+} from 'viem';
+import {
+  ConfigRetryPolicySchema,
+  RetryErrorClass,
+  RetryErrorClassSchema,
+} from '../shared/config';
+import { getUnixTimestamp } from '../utils/helpers';
+
+export const AttemptFailureSchema = z
+  .object({
+    attempt: z.number(),
+    class: RetryErrorClassSchema,
+    reason: z.string(),
+    timestamp: z.number(),
+  })
+  .strict();
+
+export type AttemptFailure = z.infer<typeof AttemptFailureSchema>;
+
+// Whether a tx was rejected because its nonce is out of sync with the chain, e.g. after txs were sent
+// from the same account by another process.
+export const isNonceError = (err: unknown) =>
+  err instanceof BaseError &&
+  (!!err.walk(
+    (e) => e instanceof NonceTooLowError || e instanceof NonceTooHighError
+  ) ||
+    /replacement transaction underpriced/i.test(err.details ?? ''));
+
+// Classifies an error thrown by a contract call or RPC request. Reverts are checked first, while other
+// contract call errors (which wrap every failure, e.g. of the underlying request) are only counted as
+// reverts if they aren't of a more specific class.
+export const classifyError = (err: unknown): RetryErrorClass => {
+  if (!(err instanceof BaseError)) return 'unknown';
+
+  const is = (...types: (new (...args: any[]) => Error)[]) =>
+    !!err.walk((e) => types.some((type) => e instanceof type));
+
+  if (is(ContractFunctionRevertedError)) return 'revert';
+  if (isNonceError(err)) return 'nonce';
+  if (is(InsufficientFundsError)) return 'insufficient_funds';
+  if (is(TimeoutError)) return 'timeout';
+  if (is(HttpRequestError, WebSocketRequestError, SocketClosedError))
+    return 'network';
+  if (is(ContractFunctionExecutionError)) return 'revert';
+
+  return 'unknown';
+};
+
+// Decides whether (and when) failed attempts of an operation are retried, and counts failures by class so
+// that operators can tune the policy.
+export class RetryPolicy {
+  static fieldSchemas = {
+    _name: z.string(),
+    _config: ConfigRetryPolicySchema,
+    _failures: z.record(z.number()),
+  };
+
+  static methodSchemas = {
+    name: {
+      returns: z.string(),
+    },
+    max_attempts: {
+      returns: z.number(),
+    },
+    failures: {
+      returns: z.record(z.number()),
+    },
+    should_retry: z
+      .function()
+      .args(z.number(), RetryErrorClassSchema)
+      .returns(z.boolean()),
+    get_delay: z.function().args(z.number()).returns(z.number()),
+    record_failure: z
+      .function()
+      .args(
+        z.number(),
+        RetryErrorClassSchema,
+        z.string(),
+        z.record(z.any()).optional()
+      )
+      .returns(AttemptFailureSchema),
+  };
+
+  #name: z.infer<typeof RetryPolicy.fieldSchemas._name>;
+  #config: z.infer<typeof RetryPolicy.fieldSchemas._config>;
+  // Failed attempts by error class, since startup.
+  #failures: z.infer<typeof RetryPolicy.fieldSchemas._failures>;
+
+  constructor(name, config_retry_policy) {
+    this.#name = RetryPolicy.fieldSchemas._name.parse(name);
+    this.#config = RetryPolicy.fieldSchemas._config.parse(config_retry_policy);
+    this.#failures = RetryPolicy.fieldSchemas._failures.parse({});
+  }
+
+  // Returns the policy's name, e.g. "delivery".
+  get name(): z.infer<typeof RetryPolicy.methodSchemas.name.returns> {
+    return this.#name;
+  }
+
+  get max_attempts(): z.infer<
+    typeof RetryPolicy.methodSchemas.max_attempts.returns
+  > {
+    return this.#config.max_attempts;
+  }
+
+  // Returns a copy of the failed attempt counts by error class.
+  get failures(): z.infer<typeof RetryPolicy.methodSchemas.failures.returns> {
+    return { ...this.#failures };
+  }
+
+  // Whether to retry after `attempt` (1-based) failed with an error of `error_class`.
+  should_retry = RetryPolicy.methodSchemas.should_retry.implement(
+    (attempt, error_class) =>
+      attempt < this.#config.max_attempts &&
+      this.#config.retry_on.includes(error_class)
+  );
+
+  // Returns the delay (ms) before retrying after `attempt` (1-based) failed.
+  get_delay = RetryPolicy.methodSchemas.get_delay.implement((attempt) => {
+    const { delay, backoff, max_delay, jitter } = this.#config;
+    const backedOff = Math.min(
+      delay * backoff ** (attempt - 1),
+      max_delay ?? Infinity
+    );
+
+    return Math.round(backedOff * (1 + jitter * (2 * Math.random() - 1)));
+  });
+
+  // Counts and logs a failed attempt, returning why it failed.
+  record_failure = RetryPolicy.methodSchemas.record_failure.implement(
+    (attempt, error_class, reason, context) => {
+      this.#failures[error_class] = (this.#failures[error_class] ?? 0) + 1;
+
+      console.debug('Attempt failed', {
+        policy: this.#name,
+        ...context,
+        attempt,
+        class: error_class,
+        reason,
+        retry: this.should_retry(attempt, error_class),
+      });
+
+      return {
+        attempt,
+        class: error_class,
+        reason,
+        timestamp: getUnixTimestamp(),
+      };
+    }
+  );
+}
@@ -18,11 +18,26 @@ import {
   PublicClient,
   TransactionSerializedGeneric,
   Block,
-  CreateEventFilterParameters,
+  Transaction,
+  TransactionNotFoundError,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+  GetFeeHistoryReturnType,
+  GetLogsParameters,
+  LocalAccount,
+  Transport,
+  HttpRequestError,
+  TimeoutError,
+  webSocket,
+  WebSocketRequestError,
+  SocketClosedError,
 } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { EventEmitter } from 'events';
 import { LRUCache } from 'lru-cache';
 import { delay } from '../utils/helpers';
+import { Signer } from './signer';
+import { RetryPolicy, classifyError } from './retry';
+import { ConfigRetrySchema, RetryErrorClass } from '../shared/config';
 import {
   AddressSchema,
   ChecksumAddressSchema,
@@ -30,7 +45,7 @@ import {
   HexSchema,
 } from '../shared/schemas';
 
-const CreateEventFilterParams = z
+const GetLogsParams = z
   .object({
     address: AddressSchema.optional(),
     event: z.custom<AbiEvent>().optional(),
@@ -40,11 +55,64 @@ const CreateEventFilterParams = z
   })
   .strict();
 
+// Upper bounds (in seconds) of the RPC request latency histogram buckets.
+export const RPC_LATENCY_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const RPCLatencySchema = z
+  .object({
+    count: z.number(),
+    sum: z.number(),
+    // Cumulative counts, one per `RPC_LATENCY_BUCKETS` upper bound.
+    buckets: z.number().array(),
+  })
+  .strict();
+
+export type RPCLatency = z.infer<typeof RPCLatencySchema>;
+
+export const RPCEndpointHealthSchema = z
+  .object({
+    // Host only, since RPC URLs often embed API keys.
+    endpoint: z.string(),
+    requests: z.number(),
+    errors: z.number(),
+    // Exponentially weighted moving averages of request latency (in ms) and error rate.
+    latency: z.number(),
+    error_rate: z.number(),
+    last_error: z.string().optional(),
+  })
+  .strict();
+
+export type RPCEndpointHealth = z.infer<typeof RPCEndpointHealthSchema>;
+
+// Weight of the latest request in the endpoint latency and error rate moving averages.
+const HEALTH_EWMA_ALPHA = 0.2;
+
+// Time (ms) in which an endpoint's error rate halves without requests, so that demoted endpoints (which stop
+// receiving the requests that would lower it) are tried again once they may have recovered.
+const HEALTH_ERROR_HALF_LIFE = 60_000;
+
+// Only errors reaching an endpoint fail over, i.e. not JSON-RPC errors like reverts, which every endpoint would return.
+const isEndpointError = (err) =>
+  err instanceof HttpRequestError ||
+  err instanceof WebSocketRequestError ||
+  err instanceof SocketClosedError ||
+  err instanceof TimeoutError;
+
+const isWebSocketUrl = (url: string) => /^wss?:\/\//.test(url);
+
 export class RPC {
   static fieldSchemas = {
-    _private_key: HexSchema,
+    _signer: z.instanceof(Signer),
     _wallet: z.custom<WalletClient>(),
     _block_cache: z.custom<LRUCache<bigint, Block>>(),
+    _latency: z.record(RPCLatencySchema),
+    _broadcast: z.boolean(),
+    _receipt_retry: z.instanceof(RetryPolicy),
+    _health: RPCEndpointHealthSchema.array().nonempty(),
+    _health_decayed_at: z.number().array(),
+    _heads: z.instanceof(EventEmitter),
+    _heads_client: z.custom<PublicClient>().optional(),
+    _unwatch_heads: z.function().optional(),
     client: z.custom<PublicClient>(),
   };
 
@@ -55,6 +123,35 @@ export class RPC {
     account: {
       returns: AddressSchema,
     },
+    signer_account: {
+      returns: z.custom<LocalAccount>(),
+    },
+    latency: {
+      returns: this.fieldSchemas._latency,
+    },
+    health: {
+      returns: this.fieldSchemas._health,
+    },
+    _record_latency: z.function().args(z.string(), z.number()),
+    _decay_error_rates: z.function().returns(z.void()),
+    _record_endpoint_request: z
+      .function()
+      .args(z.number(), z.number(), z.any().optional()),
+    _ranked_endpoints: z.function().returns(z.number().array()),
+    _watch_heads: z.function().returns(z.void()),
+    subscribed_to_heads: { returns: z.boolean() },
+    wait_for_block: z
+      .function()
+      .args(z.number(), z.instanceof(AbortSignal).optional())
+      .returns(z.promise(z.void())),
+    _failover: z
+      .function()
+      .args(z.custom<Transport>().array())
+      .returns(z.custom<Transport>()),
+    _timed: z
+      .function()
+      .args(z.custom<Transport>())
+      .returns(z.custom<Transport>()),
     is_valid_address: z.function().args(z.string()).returns(z.boolean()),
     get_keccak: z
       .function()
@@ -72,26 +169,38 @@ export class RPC {
     get_chain_id: z.function().returns(z.promise(z.number())),
     get_nonce: z
       .function()
-      .args(AddressSchema)
+      .args(AddressSchema, z.enum(['latest', 'pending']).optional())
       .returns(z.promise(z.custom<GetTransactionCountReturnType>())),
     get_block_by_number: z
       .function()
-      .args(z.bigint())
+      .args(z.bigint(), z.boolean().optional())
       .returns(z.promise(z.custom<Block>())),
     get_head_block_number: z
       .function()
       .returns(z.promise(z.custom<GetBlockNumberReturnType>())),
     get_tx_success_with_retries: z
       .function()
-      .args(HexSchema, z.number().optional(), z.number().optional())
+      .args(HexSchema)
       .returns(z.promise(z.tuple([z.boolean(), z.boolean()]))),
     get_tx_success: z
       .function()
       .args(HexSchema)
       .returns(z.promise(z.tuple([z.boolean(), z.boolean()]))),
+    get_transaction: z
+      .function()
+      .args(HexSchema)
+      .returns(z.promise(z.custom<Transaction>().optional())),
+    get_tx_receipt: z
+      .function()
+      .args(HexSchema)
+      .returns(z.promise(z.custom<TransactionReceipt>().optional())),
+    get_fee_history: z
+      .function()
+      .args(z.number().int().positive(), z.number().array())
+      .returns(z.promise(z.custom<GetFeeHistoryReturnType>())),
     get_event_logs: z
       .function()
-      .args(CreateEventFilterParams)
+      .args(GetLogsParams)
       .returns(z.promise(z.any())),
     get_balance: z
       .function()
@@ -107,18 +216,62 @@ export class RPC {
       .returns(z.promise(HexSchema)),
   };
 
-  #private_key: z.infer<typeof RPC.fieldSchemas._private_key>;
+  #signer: z.infer<typeof RPC.fieldSchemas._signer>;
   #wallet: z.infer<typeof RPC.fieldSchemas._wallet>;
   #block_cache: z.infer<typeof RPC.fieldSchemas._block_cache>;
+  #latency: z.infer<typeof RPC.fieldSchemas._latency>;
+  #broadcast: z.infer<typeof RPC.fieldSchemas._broadcast>;
+  #receipt_retry: z.infer<typeof RPC.fieldSchemas._receipt_retry>;
+  #health: z.infer<typeof RPC.fieldSchemas._health>;
+  // Times (ms) at which endpoints' error rates were last decayed, in configured order.
+  #health_decayed_at: z.infer<typeof RPC.fieldSchemas._health_decayed_at>;
+  // Emits a "block" event with the block number of every new head, if subscribed to over WebSocket.
+  #heads: z.infer<typeof RPC.fieldSchemas._heads>;
+  #heads_client?: z.infer<typeof RPC.fieldSchemas._heads_client>;
+  #unwatch_heads?: z.infer<typeof RPC.fieldSchemas._unwatch_heads>;
   client: z.infer<typeof RPC.fieldSchemas.client>;
 
-  constructor(rpc_url, private_key) {
-    this.#private_key = RPC.fieldSchemas._private_key.parse(private_key);
+  // `rpc_urls` can be a single URL, or a list of URLs to fail over between (in order of preference). URLs
+  // can be HTTP(S) or WebSocket, in which case the first WebSocket URL is also used to subscribe to new heads.
+  constructor(rpc_urls, signer, broadcast = false, receipt_retry?) {
+    const urls: string[] = z
+      .string()
+      .url()
+      .array()
+      .nonempty()
+      .parse([rpc_urls].flat());
+    // Fail over to the next endpoint instead of retrying the same one.
+    const options = urls.length > 1 ? { retryCount: 0 } : undefined;
+    const transports = () =>
+      urls.map((url) =>
+        isWebSocketUrl(url) ? webSocket(url, options) : http(url, options)
+      );
+    const wsUrl = urls.find(isWebSocketUrl);
+
+    this.#signer = RPC.fieldSchemas._signer.parse(signer);
+    this.#latency = RPC.fieldSchemas._latency.parse({});
+    this.#broadcast = RPC.fieldSchemas._broadcast.parse(broadcast);
+    this.#receipt_retry = RPC.fieldSchemas._receipt_retry.parse(
+      receipt_retry ??
+        new RetryPolicy('receipt', ConfigRetrySchema.parse({}).receipt)
+    );
+    this.#health = RPC.fieldSchemas._health.parse(
+      urls.map((url) => ({
+        endpoint: new URL(url).host,
+        requests: 0,
+        errors: 0,
+        latency: 0,
+        error_rate: 0,
+      }))
+    );
+    this.#health_decayed_at = RPC.fieldSchemas._health_decayed_at.parse(
+      urls.map(() => Date.now())
+    );
     this.#wallet = RPC.fieldSchemas._wallet.parse(
       createWalletClient({
         cacheTime: 0,
-        account: privateKeyToAccount(private_key),
-        transport: http(rpc_url),
+        account: this.#signer.account,
+        transport: this.#timed(this.#failover(transports())),
       })
     );
     this.#block_cache = new LRUCache({ max: 100 });
@@ -126,9 +279,16 @@ export class RPC {
       createPublicClient({
         // Defer to the config when determining frequency of syncing or fetching chain data.
         cacheTime: 0,
-        transport: http(rpc_url),
+        transport: this.#timed(this.#failover(transports())),
       })
     );
+    this.#heads = RPC.fieldSchemas._heads.parse(new EventEmitter());
+    this.#heads.setMaxListeners(0);
+    this.#heads_client = RPC.fieldSchemas._heads_client.parse(
+      wsUrl
+        ? createPublicClient({ cacheTime: 0, transport: webSocket(wsUrl) })
+        : undefined
+    );
   }
 
   // Returns a wallet client with the ability to sign transactions.
@@ -139,9 +299,234 @@ export class RPC {
   // Returns the wallet client's primary account address.
   get account(): z.infer<typeof RPC.methodSchemas.account.returns> {
     // Surer way of retrieving address since `this.#wallet.account.address` type is `Address | undefined`.
-    return privateKeyToAccount(this.#private_key).address;
+    return this.#signer.address;
   }
 
+  // Returns the account that the wallet client signs with, for txs sent without a contract instance.
+  get signer_account(): z.infer<
+    typeof RPC.methodSchemas.signer_account.returns
+  > {
+    return this.#signer.account;
+  }
+
+  // Returns a deep clone of the request latency histograms, keyed by JSON-RPC method.
+  get latency(): z.infer<typeof RPC.methodSchemas.latency.returns> {
+    return RPC.methodSchemas.latency.returns.parse(this.#latency);
+  }
+
+  // Returns a deep clone of the RPC endpoints' health, in configured order.
+  get health(): z.infer<typeof RPC.methodSchemas.health.returns> {
+    this.#decay_error_rates();
+
+    return RPC.methodSchemas.health.returns.parse(this.#health);
+  }
+
+  // Whether new heads are subscribed to over WebSocket, i.e. whether `wait_for_block` can return early.
+  get subscribed_to_heads(): z.infer<
+    typeof RPC.methodSchemas.subscribed_to_heads.returns
+  > {
+    return !!this.#heads_client;
+  }
+
+  // Decays endpoints' error rates by the time since they were last decayed (see `HEALTH_ERROR_HALF_LIFE`).
+  #decay_error_rates = RPC.methodSchemas._decay_error_rates.implement(() => {
+    const now = Date.now();
+
+    this.#health.forEach((health, index) => {
+      health.error_rate *=
+        0.5 **
+        ((now - this.#health_decayed_at[index]) / HEALTH_ERROR_HALF_LIFE);
+      this.#health_decayed_at[index] = now;
+    });
+  });
+
+  // Records the outcome of a request sent to the endpoint at `index`.
+  #record_endpoint_request =
+    RPC.methodSchemas._record_endpoint_request.implement((index, ms, err) => {
+      const health = this.#health[index];
+      const failed = err !== undefined;
+
+      this.#decay_error_rates();
+
+      health.requests += 1;
+      health.latency =
+        health.requests === 1
+          ? ms
+          : HEALTH_EWMA_ALPHA * ms + (1 - HEALTH_EWMA_ALPHA) * health.latency;
+      health.error_rate =
+        HEALTH_EWMA_ALPHA * Number(failed) +
+        (1 - HEALTH_EWMA_ALPHA) * health.error_rate;
+
+      if (failed) {
+        health.errors += 1;
+        health.last_error = `${err}`.split('\n')[0];
+      }
+    });
+
+  // Returns endpoint indexes from best to worst score. Errors weigh much more than latency, and ties
+  // (e.g. before any requests) keep the configured order.
+  #ranked_endpoints = RPC.methodSchemas._ranked_endpoints.implement(() => {
+    const score = ({ latency, error_rate }: RPCEndpointHealth) =>
+      latency * (1 + 10 * error_rate) + 10_000 * error_rate;
+
+    this.#decay_error_rates();
+
+    return this.#health
+      .map((health, index) => ({ index, score: score(health) }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ index }) => index);
+  });
+
+  // Combines per-endpoint transports into one that sends each request to the best-scored endpoint, and fails
+  // over to the next one on endpoint errors. If broadcasting is enabled, raw txs are sent to all endpoints.
+  #failover = RPC.methodSchemas._failover.implement(
+    (transports) => (params) => {
+      const instances = transports.map((transport) => transport(params));
+      const send = async (index: number, args, options) => {
+        const start = performance.now();
+
+        try {
+          const result = await instances[index].request(args, options);
+
+          this.#record_endpoint_request(
+            index,
+            performance.now() - start,
+            undefined
+          );
+
+          return result;
+        } catch (err) {
+          this.#record_endpoint_request(
+            index,
+            performance.now() - start,
+            isEndpointError(err) ? err : undefined
+          );
+
+          throw err;
+        }
+      };
+
+      return {
+        ...instances[0],
+        request: (async (args, options) => {
+          if (
+            this.#broadcast &&
+            instances.length > 1 &&
+            args.method === 'eth_sendRawTransaction'
+          ) {
+            try {
+              return await Promise.any(
+                instances.map((_, index) => send(index, args, options))
+              );
+            } catch (err) {
+              // Prefer errors returned by a reachable endpoint (e.g. nonce too low), since they are actionable.
+              throw err instanceof AggregateError
+                ? err.errors.find((error) => !isEndpointError(error)) ??
+                    err.errors[0]
+                : err;
+            }
+          }
+
+          const ranked = this.#ranked_endpoints();
+
+          for (let i = 0; i < ranked.length; i++) {
+            try {
+              return await send(ranked[i], args, options);
+            } catch (err) {
+              if (!isEndpointError(err) || i === ranked.length - 1) throw err;
+
+              console.warn('RPC endpoint failed, failing over', {
+                endpoint: this.#health[ranked[i]].endpoint,
+                method: args.method,
+              });
+            }
+          }
+        }) as (typeof instances)[0]['request'],
+      };
+    }
+  );
+
+  // Subscribes to new heads (if not already subscribed), re-emitting them as "block" events. Over a WebSocket
+  // transport, viem uses an `eth_subscribe` "newHeads" subscription rather than polling.
+  #watch_heads = RPC.methodSchemas._watch_heads.implement(() => {
+    if (!this.#heads_client || this.#unwatch_heads) return;
+
+    this.#unwatch_heads = this.#heads_client.watchBlockNumber({
+      onBlockNumber: (block_number) => this.#heads.emit('block', block_number),
+      onError: (err) =>
+        console.warn('New heads subscription errored', {
+          err: `${err}`.split('\n')[0],
+        }),
+    });
+  });
+
+  // Waits for the next new head, at most `timeout` ms, or until `signal` is aborted. Without a WebSocket
+  // endpoint, just sleeps `timeout` ms (or until `signal` is aborted).
+  wait_for_block = RPC.methodSchemas.wait_for_block.implement(
+    async (timeout, signal) => {
+      // Without a heads client, "block" events are never emitted.
+      this.#watch_heads();
+
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          this.#heads.off('block', done);
+          signal?.removeEventListener('abort', done);
+
+          resolve();
+        };
+        const timer = setTimeout(done, timeout);
+
+        this.#heads.once('block', done);
+        signal?.addEventListener('abort', done);
+
+        if (signal?.aborted) done();
+      });
+    }
+  );
+
+  // Records the latency (in seconds) of a JSON-RPC request.
+  #record_latency = RPC.methodSchemas._record_latency.implement(
+    (method, seconds) => {
+      if (!this.#latency[method])
+        this.#latency[method] = {
+          count: 0,
+          sum: 0,
+          buckets: RPC_LATENCY_BUCKETS.map(() => 0),
+        };
+
+      const latency = this.#latency[method];
+
+      latency.count += 1;
+      latency.sum += seconds;
+
+      RPC_LATENCY_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) latency.buckets[i] += 1;
+      });
+    }
+  );
+
+  // Wraps a transport to record the latency of every JSON-RPC request sent through it.
+  #timed = RPC.methodSchemas._timed.implement((transport) => (params) => {
+    const instance = transport(params);
+
+    return {
+      ...instance,
+      request: (async (args, options) => {
+        const start = performance.now();
+
+        try {
+          return await instance.request(args, options);
+        } finally {
+          this.#record_latency(
+            args.method,
+            (performance.now() - start) / 1_000
+          );
+        }
+      }) as typeof instance.request,
+    };
+  });
+
   // Checks if an address is a checksummed EVM address.
   static is_valid_address = this.methodSchemas.is_valid_address.implement(
     (address) => isAddress(address, { strict: true })
@@ -181,17 +566,19 @@ export class RPC {
     this.#wallet.getChainId()
   );
 
-  // Gets an account's nonce.
-  get_nonce = RPC.methodSchemas.get_nonce.implement((address) =>
+  // Gets an account's nonce. The `pending` nonce also counts txs in the mempool.
+  get_nonce = RPC.methodSchemas.get_nonce.implement((address, block_tag) =>
     this.client.getTransactionCount({
       address,
+      blockTag: block_tag,
     })
   );
 
   // Gets block data for a block specified by number.
   get_block_by_number = RPC.methodSchemas.get_block_by_number.implement(
-    async (block_number) => {
-      let block = this.#block_cache.get(block_number);
+    async (block_number, refresh) => {
+      // Cached blocks may have been reorged out, so `refresh` bypasses (and updates) the cache.
+      let block = refresh ? undefined : this.#block_cache.get(block_number);
 
       if (block) return block;
 
@@ -210,21 +597,32 @@ export class RPC {
     () => this.client.getBlockNumber()
   );
 
-  // Gets the tx success status by `tx_hash` with retries.
+  // Gets the tx success status by `tx_hash`, retrying per the receipt retry policy until the tx succeeds.
   get_tx_success_with_retries =
-    RPC.methodSchemas.get_tx_success_with_retries.implement(
-      async (tx_hash, retries = 10, sleep = 200) => {
-        for (let i = 0; i < retries; i++) {
-          const [found, successStatus] = await this.get_tx_success(tx_hash);
+    RPC.methodSchemas.get_tx_success_with_retries.implement(async (tx_hash) => {
+      for (let attempt = 1; ; attempt++) {
+        let failure: [RetryErrorClass, string];
 
-          if (found && successStatus) return [found, successStatus];
+        try {
+          const receipt = await this.get_tx_receipt(tx_hash);
 
-          await delay(sleep);
+          if (receipt?.status === 'success') return [true, true];
+
+          failure = receipt
+            ? ['revert', 'Tx reverted']
+            : ['not_found', 'Tx not mined'];
+        } catch (err) {
+          failure = [classifyError(err), `${err}`];
         }
 
-        return [false, false];
+        this.#receipt_retry.record_failure(attempt, ...failure, { tx_hash });
+
+        if (!this.#receipt_retry.should_retry(attempt, failure[0]))
+          return [false, false];
+
+        await delay(this.#receipt_retry.get_delay(attempt));
       }
-    );
+    });
 
   // Gets the tx success status by `tx_hash`.
   get_tx_success = RPC.methodSchemas.get_tx_success.implement(
@@ -241,20 +639,49 @@ export class RPC {
     }
   );
 
-  // Returns event logs for a given set of parameters.
-  get_event_logs = RPC.methodSchemas.get_event_logs.implement(
-    async (params) => {
-      const filter = await this.client.createEventFilter(
-        params as CreateEventFilterParameters
-      );
+  // Gets a tx by `tx_hash`, whether mined or pending. Returns undefined if the tx is unknown (e.g. dropped).
+  get_transaction = RPC.methodSchemas.get_transaction.implement(
+    async (tx_hash) => {
+      try {
+        return await this.client.getTransaction({ hash: tx_hash });
+      } catch (err) {
+        if (err instanceof TransactionNotFoundError) return undefined;
 
-      console.log('Created event filter', {
-        id: filter.id,
-      });
+        throw err;
+      }
+    }
+  );
+
+  // Gets a mined tx's receipt by `tx_hash`. Returns undefined if the tx is not mined (yet).
+  get_tx_receipt = RPC.methodSchemas.get_tx_receipt.implement(
+    async (tx_hash) => {
+      try {
+        return await this.client.getTransactionReceipt({ hash: tx_hash });
+      } catch (err) {
+        if (err instanceof TransactionReceiptNotFoundError) return undefined;
+
+        throw err;
+      }
+    }
+  );
 
-      const logs = await this.client.getFilterLogs({ filter });
+  // Gets base fees (including the next block's) and priority fee `percentiles` of the latest `block_count` blocks.
+  get_fee_history = RPC.methodSchemas.get_fee_history.implement(
+    (block_count, percentiles) =>
+      this.client.getFeeHistory({
+        blockCount: block_count,
+        rewardPercentiles: percentiles,
+      })
+  );
+
+  // Returns event logs for a given set of parameters. Uses a single stateless `eth_getLogs` request, since
+  // filters created with `eth_newFilter` only exist on the endpoint that created them, and requests can
+  // fail over between endpoints.
+  get_event_logs = RPC.methodSchemas.get_event_logs.implement(
+    async (params) => {
+      const logs = await this.client.getLogs(params as GetLogsParameters);
 
-      console.log('Collected event logs', {
+      console.debug('Collected event logs', {
         count: logs.length,
       });
 
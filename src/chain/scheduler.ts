@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { Subscription } from '../shared/subscription';
+
+// How far a subscription's current interval has been processed.
+export const IntervalStateSchema = z
+  .object({
+    // Whether the interval is being processed, has a pending tx, or was already replied to by the node.
+    handled: z.boolean(),
+    // Time (ms) the interval was last dispatched, if it was.
+    dispatched_at: z.number().optional(),
+    // Time (ms) until which retries of the interval are deferred, if they are.
+    deferred_until: z.number().optional(),
+  })
+  .strict();
+
+export type IntervalState = z.infer<typeof IntervalStateSchema>;
+
+const GetNextDueSchema = z
+  .function()
+  .args(
+    z.instanceof(Subscription),
+    z.function().args(z.number()).returns(IntervalStateSchema),
+    z.number()
+  )
+  .returns(z.number());
+
+// Returns the time (ms) from which a subscription needs processing: now (or when it's no longer deferred)
+// if its current interval hasn't been handled, otherwise when its next interval starts. Callback
+// subscriptions only have one interval, so they're rechecked every `poll_period` until they're completed
+// and stop being tracked.
+export const getNextDue = GetNextDueSchema.implement(
+  (subscription, get_interval_state, poll_period) => {
+    if (!subscription.active) return (subscription.active_at + 1) * 1_000;
+
+    const interval = subscription.interval;
+    const { handled, dispatched_at, deferred_until } =
+      get_interval_state(interval);
+
+    if (!handled) return deferred_until ?? 0;
+
+    const intervalEnd = subscription.get_interval_end(interval);
+
+    return intervalEnd === undefined
+      ? (dispatched_at ?? 0) + poll_period
+      : intervalEnd * 1_000;
+  }
+);
+
+// Sort keys of scheduled subscriptions. Keys other than `due` are only read for due subscriptions, since
+// they depend on the current interval, which inactive subscriptions don't have.
+export type ScheduleKeys<T> = {
+  dispatched_at: (scheduled: T) => number;
+  deadline: (scheduled: T) => number;
+  payment_value: (scheduled: T) => bigint;
+};
+
+const compare = (x: number | bigint, y: number | bigint) =>
+  x === y ? 0 : x < y ? -1 : 1;
+
+// Returns a comparator ordering scheduled subscriptions by when they need processing. Due subscriptions
+// come first: intervals not yet dispatched before those being reprocessed (least recently dispatched first,
+// so that intervals that keep failing don't starve others), then those whose intervals end soonest (i.e.
+// with the closest deadline), then those paying the most. Subscriptions that aren't due are only ordered
+// by when they're due.
+export const compareScheduled =
+  <T extends { due: number }>(
+    now: number,
+    { dispatched_at, deadline, payment_value }: ScheduleKeys<T>
+  ) =>
+  (a: T, b: T) =>
+    a.due > now || b.due > now
+      ? compare(a.due, b.due)
+      : compare(dispatched_at(a), dispatched_at(b)) ||
+        compare(deadline(a), deadline(b)) ||
+        compare(payment_value(b), payment_value(a));
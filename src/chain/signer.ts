@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import {
+  LocalAccount,
+  formatTransactionRequest,
+  getAddress,
+  getTypesForEIP712Domain,
+  numberToHex,
+  serializeTypedData,
+  stringToHex,
+  toHex,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { AddressSchema, ChecksumAddressSchema } from '../shared/schemas';
+
+const JsonRpcResponseSchema = z.object({
+  result: z.any().optional(),
+  error: z
+    .object({
+      code: z.number(),
+      message: z.string(),
+    })
+    .optional(),
+});
+
+// Signs txs, messages and typed data for the node's account. Implementations expose a viem account, so that
+// clients sign with it transparently.
+export abstract class Signer {
+  abstract get address(): z.infer<typeof ChecksumAddressSchema>;
+
+  abstract get account(): LocalAccount;
+}
+
+// Signs with a private key held in memory.
+export class PrivateKeySigner extends Signer {
+  static fieldSchemas = {
+    _account: z.custom<LocalAccount>(),
+  };
+
+  static methodSchemas = {
+    address: {
+      returns: ChecksumAddressSchema,
+    },
+  };
+
+  #account: z.infer<typeof PrivateKeySigner.fieldSchemas._account>;
+
+  constructor(private_key) {
+    super();
+
+    this.#account = PrivateKeySigner.fieldSchemas._account.parse(
+      privateKeyToAccount(private_key)
+    );
+  }
+
+  get address(): z.infer<
+    typeof PrivateKeySigner.methodSchemas.address.returns
+  > {
+    return PrivateKeySigner.methodSchemas.address.returns.parse(
+      this.#account.address
+    );
+  }
+
+  get account(): LocalAccount {
+    return this.#account;
+  }
+}
+
+// Signs by calling a remote signer over JSON-RPC (`eth_signTransaction`, `eth_signTypedData_v4` and
+// `personal_sign`), so that keys can live in a separate process. Signed txs are broadcast by the node.
+export class RemoteSigner extends Signer {
+  static fieldSchemas = {
+    _url: z.string().url(),
+    _address: ChecksumAddressSchema,
+    _timeout: z.number().positive(),
+    _account: z.custom<LocalAccount>(),
+  };
+
+  static methodSchemas = {
+    address: {
+      returns: ChecksumAddressSchema,
+    },
+    _request: z
+      .function()
+      .args(z.string(), z.any().array())
+      .returns(z.promise(z.any())),
+  };
+
+  #url: z.infer<typeof RemoteSigner.fieldSchemas._url>;
+  #address: z.infer<typeof RemoteSigner.fieldSchemas._address>;
+  #timeout: z.infer<typeof RemoteSigner.fieldSchemas._timeout>;
+  #account: z.infer<typeof RemoteSigner.fieldSchemas._account>;
+
+  constructor(config_remote_signer) {
+    super();
+
+    this.#url = RemoteSigner.fieldSchemas._url.parse(config_remote_signer.url);
+    this.#address = RemoteSigner.fieldSchemas._address.parse(
+      getAddress(AddressSchema.parse(config_remote_signer.address))
+    );
+    this.#timeout = RemoteSigner.fieldSchemas._timeout.parse(
+      config_remote_signer.timeout
+    );
+    this.#account = RemoteSigner.fieldSchemas._account.parse(
+      toAccount({
+        address: this.#address,
+        signMessage: ({ message }) =>
+          this.#request('personal_sign', [
+            typeof message === 'string'
+              ? stringToHex(message)
+              : typeof message.raw === 'string'
+              ? message.raw
+              : toHex(message.raw),
+            this.#address,
+          ]),
+        signTransaction: async (transaction) => {
+          const signed = await this.#request('eth_signTransaction', [
+            {
+              ...formatTransactionRequest(transaction as any),
+              from: this.#address,
+              chainId:
+                transaction.chainId === undefined
+                  ? undefined
+                  : numberToHex(transaction.chainId),
+            },
+          ]);
+
+          // Some signers (e.g. Clef) return the signed tx along with its decoded fields.
+          return typeof signed === 'string' ? signed : signed.raw;
+        },
+        signTypedData: ({ domain, types, ...typed_data }: any) =>
+          this.#request('eth_signTypedData_v4', [
+            this.#address,
+            // The domain is only serialized with its type.
+            serializeTypedData({
+              ...typed_data,
+              domain,
+              types: {
+                EIP712Domain: getTypesForEIP712Domain({ domain }),
+                ...types,
+              },
+            }),
+          ]),
+      })
+    );
+
+    console.debug('Initialized RemoteSigner', {
+      url: this.#url,
+      address: this.#address,
+    });
+  }
+
+  // Sends a JSON-RPC request to the remote signer, throwing on errors.
+  #request = RemoteSigner.methodSchemas._request.implement(
+    async (method, params) => {
+      const response = await fetch(this.#url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+        signal: AbortSignal.timeout(this.#timeout),
+      });
+
+      if (!response.ok)
+        throw new Error(
+          `Remote signer responded with status ${response.status}`
+        );
+
+      const { result, error } = JsonRpcResponseSchema.parse(
+        await response.json()
+      );
+
+      if (error)
+        throw new Error(
+          `Remote signer error (${error.code}): ${error.message}`
+        );
+
+      return result;
+    }
+  );
+
+  get address(): z.infer<typeof RemoteSigner.methodSchemas.address.returns> {
+    return this.#address;
+  }
+
+  get account(): LocalAccount {
+    return this.#account;
+  }
+}
@@ -2,12 +2,11 @@
 import { z } from 'zod';
 import {
   Hex,
+  LocalAccount,
   BaseError,
   ContractFunctionRevertedError,
   ContractFunctionExecutionError,
 } from 'viem';
-import { privateKeyToAccount, PrivateKeyAccount } from 'viem/accounts';
-import { Mutex } from 'async-mutex';
 import {
   Coordinator,
   CoordinatorDeliveryParams,
@@ -15,8 +14,13 @@ import {
 } from './coordinator';
 import { raise_if_infernet_error } from './errors';
 import { RPC } from './rpc';
+import { GasStrategy } from './gas';
+import { Signer } from './signer';
+import { NonceManager } from './nonce';
+import { RetryPolicy, classifyError } from './retry';
 import { Subscription } from '../shared/subscription';
 import { ZERO_ADDRESS } from '../utils/constants';
+import { ConfigRetrySchema } from '../shared/config';
 import { delay } from '../utils/helpers';
 import { ChecksumAddressSchema, HexSchema } from '../shared/schemas';
 
@@ -29,10 +33,12 @@ export class Wallet {
     _rpc: z.instanceof(RPC),
     _coordinator: z.instanceof(Coordinator),
     _max_gas_limit: z.bigint(),
-    _account: z.custom<PrivateKeyAccount>(),
+    _account: z.custom<LocalAccount>(),
     _allowed_sim_errors: z.string().array(),
-    _tx_lock: z.custom<Mutex>(),
+    _nonces: z.instanceof(NonceManager),
     _payment_address: ChecksumAddressSchema,
+    _gas_strategy: z.instanceof(GasStrategy).optional(),
+    _simulation_retry: z.instanceof(RetryPolicy),
   };
 
   static methodSchemas = {
@@ -42,10 +48,17 @@ export class Wallet {
     address: {
       returns: ChecksumAddressSchema,
     },
+    gas_strategy: {
+      returns: z.instanceof(GasStrategy).optional(),
+    },
     _simulate_transaction: z
       .function()
       .args(z.function(), z.instanceof(Subscription))
       .returns(z.promise(z.boolean())),
+    _send: z
+      .function()
+      .args(z.function(), z.record(z.any()))
+      .returns(z.promise(HexSchema)),
     deliver_compute: z
       .function()
       .args(
@@ -67,6 +80,17 @@ export class Wallet {
         z.boolean()
       )
       .returns(z.promise(HexSchema)),
+    estimate_delivery_cost: z
+      .function()
+      .args(
+        z.instanceof(Subscription),
+        CoordinatorSignatureParamsSchema.optional()
+      )
+      .returns(z.promise(z.bigint())),
+    replace_transaction: z
+      .function()
+      .args(HexSchema)
+      .returns(z.promise(HexSchema.optional())),
   };
 
   #rpc: z.infer<typeof Wallet.fieldSchemas._rpc>;
@@ -74,29 +98,43 @@ export class Wallet {
   #max_gas_limit: z.infer<typeof Wallet.fieldSchemas._max_gas_limit>;
   #account: z.infer<typeof Wallet.fieldSchemas._account>;
   #allowed_sim_errors: z.infer<typeof Wallet.fieldSchemas._allowed_sim_errors>;
-  #tx_lock: z.infer<typeof Wallet.fieldSchemas._tx_lock>;
+  #nonces: z.infer<typeof Wallet.fieldSchemas._nonces>;
   #payment_address: z.infer<typeof Wallet.fieldSchemas._payment_address>;
+  #gas_strategy?: z.infer<typeof Wallet.fieldSchemas._gas_strategy>;
+  #simulation_retry: z.infer<typeof Wallet.fieldSchemas._simulation_retry>;
 
+  // Without a `gas_strategy`, fees are estimated by viem and stuck txs are not replaced. `nonces` must be
+  // shared with anything else sending txs from the account.
   constructor(
     rpc,
     coordinator,
-    private_key,
+    signer,
     max_gas_limit,
     payment_address = ZERO_ADDRESS,
-    allowed_sim_errors
+    allowed_sim_errors,
+    gas_strategy?,
+    simulation_retry?,
+    nonces?
   ) {
     this.#rpc = Wallet.fieldSchemas._rpc.parse(rpc);
     this.#coordinator = Wallet.fieldSchemas._coordinator.parse(coordinator);
     this.#max_gas_limit =
       Wallet.fieldSchemas._max_gas_limit.parse(max_gas_limit);
     this.#account = Wallet.fieldSchemas._account.parse(
-      privateKeyToAccount(private_key)
+      z.instanceof(Signer).parse(signer).account
     );
     this.#allowed_sim_errors =
       Wallet.fieldSchemas._allowed_sim_errors.parse(allowed_sim_errors);
     this.#payment_address =
       Wallet.fieldSchemas._payment_address.parse(payment_address);
-    this.#tx_lock = Wallet.fieldSchemas._tx_lock.parse(new Mutex());
+    this.#nonces = Wallet.fieldSchemas._nonces.parse(
+      nonces ?? new NonceManager(this.#rpc, this.#account.address)
+    );
+    this.#gas_strategy = Wallet.fieldSchemas._gas_strategy.parse(gas_strategy);
+    this.#simulation_retry = Wallet.fieldSchemas._simulation_retry.parse(
+      simulation_retry ??
+        new RetryPolicy('simulation', ConfigRetrySchema.parse({}).simulation)
+    );
 
     console.debug('Initialized Wallet', {
       address: this.#account.address,
@@ -117,10 +155,17 @@ export class Wallet {
     return Wallet.methodSchemas.address.returns.parse(this.#account.address);
   }
 
-  // Simulates the function call, and retries 3 times, with a 500ms delay if the tx reverts.
+  // Returns the gas strategy, if configured.
+  get gas_strategy(): z.infer<
+    typeof Wallet.methodSchemas.gas_strategy.returns
+  > {
+    return this.#gas_strategy;
+  }
+
+  // Simulates the function call, retrying failed simulations per the simulation retry policy.
   #simulate_transaction = Wallet.methodSchemas._simulate_transaction.implement(
     async (fn, subscription) => {
-      const simulateWithRetries = async (retries: number = 3) => {
+      const simulateWithRetries = async (attempt: number = 1) => {
         try {
           // `fn` should be a function that calls the contract method with the args passed as options.
           await fn({ from: this.#account.address });
@@ -163,13 +208,21 @@ export class Wallet {
                 subscription: subscription,
               });
             }
+          }
 
-            // Retry 3 times with a delay of 0.5 seconds if an error type matches and if there are retries remaining.
-            if (revertError && retries) {
-              await delay(500);
+          const errorClass = classifyError(err);
 
-              return simulateWithRetries(retries - 1);
-            }
+          this.#simulation_retry.record_failure(
+            attempt,
+            errorClass,
+            err.shortMessage ?? `${err}`,
+            { id: subscription.id }
+          );
+
+          if (this.#simulation_retry.should_retry(attempt, errorClass)) {
+            await delay(this.#simulation_retry.get_delay(attempt));
+
+            return simulateWithRetries(attempt + 1);
           }
 
           throw err;
@@ -180,6 +233,19 @@ export class Wallet {
     }
   );
 
+  // Sends the tx for the contract function call, with fees from the gas strategy (if configured).
+  // Nonces are handed out locally, so that concurrent deliveries don't wait on each other.
+  #send = Wallet.methodSchemas._send.implement((fn, tx_options) =>
+    this.#nonces.send(async (nonce) => {
+      const fees = this.#gas_strategy
+        ? await this.#gas_strategy.estimate_fees()
+        : {};
+      const { request }: any = await fn({ ...tx_options, ...fees, nonce });
+
+      return this.#rpc.wallet.writeContract(request);
+    })
+  );
+
   // Simulates a `Coordinator.deliverCompute` call, and optionally send the tx.
   deliver_compute = Wallet.methodSchemas.deliver_compute.implement(
     async (subscription, input, output, proof, simulate_only) => {
@@ -194,9 +260,7 @@ export class Wallet {
       const fn =
         this.#coordinator.get_deliver_compute_tx_contract_function(fnArgs);
       const skipped = await this.#simulate_transaction(fn, subscription);
-      let txHash: Hex = '0x';
-
-      if (simulate_only) return txHash;
+      if (simulate_only) return '0x';
 
       const txOptions: any = {};
 
@@ -205,14 +269,7 @@ export class Wallet {
       // limit manually.
       if (skipped) txOptions.gas = this.#max_gas_limit;
 
-      // Executes the callback once the mutex is unlocked.
-      await this.#tx_lock.runExclusive(async () => {
-        const { request }: any = await fn(txOptions);
-
-        txHash = await this.#rpc.wallet.writeContract(request);
-      });
-
-      return txHash;
+      return this.#send(fn, txOptions);
     }
   );
 
@@ -234,22 +291,86 @@ export class Wallet {
             signature
           );
         const skipped = await this.#simulate_transaction(fn, subscription);
-        let txHash: Hex = '0x';
-
-        if (simulate_only) return txHash;
+        if (simulate_only) return '0x';
 
         const txOptions: any = {};
 
         if (skipped) txOptions.gas = this.#max_gas_limit;
 
-        // Executes the callback once the mutex is unlocked.
-        await this.#tx_lock.runExclusive(async () => {
-          const { request }: any = await fn(txOptions);
+        return this.#send(fn, txOptions);
+      }
+    );
 
-          txHash = await this.#rpc.wallet.writeContract(request);
-        });
+  // Estimates the cost (in wei) of delivering a subscription's output at the current gas price. Estimated with
+  // empty inputs, outputs and proofs, since it runs before containers do, so it's a lower bound.
+  estimate_delivery_cost =
+    Wallet.methodSchemas.estimate_delivery_cost.implement(
+      async (subscription, signature) => {
+        const fnArgs: CoordinatorDeliveryParams = {
+          subscription,
+          interval: subscription.interval,
+          input: '0x',
+          output: '0x',
+          proof: '0x',
+          node_wallet: this.payment_address,
+        };
+        const fn = signature
+          ? this.#coordinator.get_deliver_compute_delegatee_tx_contract_function(
+              fnArgs,
+              signature
+            )
+          : this.#coordinator.get_deliver_compute_tx_contract_function(fnArgs);
+        const { request }: any = await fn({ account: this.#account });
+        const [gas, gasPrice] = await Promise.all([
+          this.#rpc.client.estimateContractGas(request),
+          this.#rpc.client.getGasPrice(),
+        ]);
 
-        return txHash;
+        return gas * gasPrice;
       }
     );
+
+  // Replaces a pending tx with the same tx (and nonce) with bumped fees. Returns the replacement tx's hash,
+  // or undefined if the tx can't be replaced: no gas strategy is configured, the tx is unknown (i.e. dropped,
+  // in which case its nonce is released) or already mined, or bumped fees would exceed the max fee per gas.
+  replace_transaction = Wallet.methodSchemas.replace_transaction.implement(
+    async (tx_hash) => {
+      if (!this.#gas_strategy) return undefined;
+
+      const tx = await this.#rpc.get_transaction(tx_hash);
+
+      // Dropped txs leave a nonce gap that stalls later txs until it is filled.
+      if (!tx) {
+        this.#nonces.dropped(tx_hash);
+
+        return undefined;
+      }
+
+      if (tx.blockNumber !== null || !tx.to) return undefined;
+
+      // Legacy txs only have a gas price, which is both their max fee and priority fee.
+      const fees = await this.#gas_strategy.bump_fees({
+        maxFeePerGas: tx.maxFeePerGas ?? (tx.gasPrice as bigint),
+        maxPriorityFeePerGas:
+          tx.maxPriorityFeePerGas ?? (tx.gasPrice as bigint),
+      });
+
+      if (!fees) return undefined;
+
+      const txHash = await this.#rpc.wallet.sendTransaction({
+        account: this.#account,
+        chain: null,
+        to: tx.to,
+        data: tx.input,
+        value: tx.value,
+        gas: tx.gas,
+        nonce: tx.nonce,
+        ...fees,
+      });
+
+      this.#nonces.sent(tx.nonce, txHash);
+
+      return txHash;
+    }
+  );
 }
@@ -8,14 +8,18 @@ import {
   WALLET_FACTORY_ABI,
   ZERO_ADDRESS,
 } from '../utils/constants';
-import { AddressSchema, ChecksumAddressSchema } from '../shared/schemas';
+import {
+  AddressSchema,
+  ChecksumAddressSchema,
+  TokenAmountSchema,
+} from '../shared/schemas';
 
 export class WalletChecker {
   static fieldSchemas = {
     _rpc: z.instanceof(RPC),
     _registry: z.instanceof(Registry),
     _payment_address: ChecksumAddressSchema,
-    _accepted_payments: z.record(z.record(z.number())),
+    _accepted_payments: z.record(z.record(TokenAmountSchema)),
   };
 
   static methodSchemas = {
@@ -146,10 +150,10 @@ export class WalletChecker {
         // requirements of each container.
         const minPayment = containers.reduce((acc, container) => {
           const paymentAmount =
-            this.#accepted_payments[container]?.[sub.payment_token] ?? 0;
+            this.#accepted_payments[container]?.[sub.payment_token] ?? 0n;
 
           return acc + paymentAmount;
-        }, 0);
+        }, 0n);
 
         if (sub.payment_amount < minPayment) {
           console.info(
@@ -9,29 +9,19 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 import { z } from 'zod';
-import {
-  ConfigSchema,
-  loadValidatedConfig,
-  ConfigWallet,
-} from './shared/config';
+import { ConfigSchema, loadValidatedConfig } from './shared/config';
 import { checkNodeIsUpToDate, __version__ } from './version';
 import { assignPorts } from './utils/container';
-import { add0x } from './utils/helpers';
 import { ContainerManager } from './orchestration/docker';
 import { DataStore } from './orchestration/store';
+import { WebhookDispatcher } from './orchestration/webhook';
 import { Orchestrator } from './orchestration/orchestrator';
 import { Guardian } from './orchestration/guardian';
 import { ContainerLookup } from './chain/containerLookup';
-import { ChainProcessor } from './chain/processor';
-import { Wallet } from './chain/wallet';
-import { RPC } from './chain/rpc';
-import { Registry } from './chain/registry';
-import { WalletChecker } from './chain/walletChecker';
-import { Coordinator } from './chain/coordinator';
-import { Reader } from './chain/reader';
-import { PaymentWallet } from './chain/paymentWallet';
-import { ChainListener } from './chain/listener';
+import { Chain } from './chain/chain';
 import { RESTServer } from './server/rest';
+import { MetricsCollector } from './server/metrics';
+import { StatSender } from './server/stats';
 import { AsyncTask } from './shared/service';
 
 export class NodeLifecycle {
@@ -42,16 +32,8 @@ export class NodeLifecycle {
     store: z.instanceof(DataStore),
     orchestrator: z.instanceof(Orchestrator),
     containerLookup: z.instanceof(ContainerLookup),
-    processor: z.instanceof(ChainProcessor),
-    wallet: z.instanceof(Wallet),
     guardian: z.instanceof(Guardian),
-    rpc: z.instanceof(RPC),
-    registry: z.instanceof(Registry),
-    walletChecker: z.instanceof(WalletChecker),
-    coordinator: z.instanceof(Coordinator),
-    reader: z.instanceof(Reader),
-    paymentWallet: z.instanceof(PaymentWallet),
-    listener: z.instanceof(ChainListener),
+    chains: z.instanceof(Chain).array(),
     _asyncTasks: z.instanceof(AsyncTask).array(),
   };
 
@@ -68,16 +50,8 @@ export class NodeLifecycle {
   store!: z.infer<typeof NodeLifecycle.fieldSchemas.store>;
   orchestrator!: z.infer<typeof NodeLifecycle.fieldSchemas.orchestrator>;
   containerLookup!: z.infer<typeof NodeLifecycle.fieldSchemas.containerLookup>;
-  processor!: z.infer<typeof NodeLifecycle.fieldSchemas.processor>;
-  wallet!: z.infer<typeof NodeLifecycle.fieldSchemas.wallet>;
   guardian!: z.infer<typeof NodeLifecycle.fieldSchemas.guardian>;
-  rpc!: z.infer<typeof NodeLifecycle.fieldSchemas.rpc>;
-  registry!: z.infer<typeof NodeLifecycle.fieldSchemas.registry>;
-  walletChecker!: z.infer<typeof NodeLifecycle.fieldSchemas.walletChecker>;
-  coordinator!: z.infer<typeof NodeLifecycle.fieldSchemas.coordinator>;
-  reader!: z.infer<typeof NodeLifecycle.fieldSchemas.reader>;
-  paymentWallet!: z.infer<typeof NodeLifecycle.fieldSchemas.paymentWallet>;
-  listener!: z.infer<typeof NodeLifecycle.fieldSchemas.listener>;
+  chains: z.infer<typeof NodeLifecycle.fieldSchemas.chains> = [];
   #asyncTasks: z.infer<typeof NodeLifecycle.fieldSchemas._asyncTasks> = [];
 
   constructor(configPath = process.env.INFERNET_CONFIG_PATH) {
@@ -106,9 +80,13 @@ export class NodeLifecycle {
 
     await checkNodeIsUpToDate();
 
-    const chainEnabled = this.config.chain.enabled;
+    const chainConfigs = this.config.chain.filter(({ enabled }) => enabled);
+    const chainEnabled = chainConfigs.length > 0;
 
-    console.debug('Running startup', { chain_enabled: chainEnabled });
+    console.debug('Running startup', {
+      chain_enabled: chainEnabled,
+      chains: chainConfigs.map(({ name }) => name),
+    });
 
     const containerConfigs = assignPorts(this.config.containers);
     this.manager = new ContainerManager(
@@ -120,7 +98,13 @@ export class NodeLifecycle {
 
     this.#asyncTasks.push(this.manager);
 
-    this.store = new DataStore(this.config.redis.host, this.config.redis.port);
+    const webhook = new WebhookDispatcher(this.config.webhook);
+
+    this.store = new DataStore(
+      this.config.redis.host,
+      this.config.redis.port,
+      webhook
+    );
 
     // Connect to redis DBs and run setup tasks.
     await this.store.setup();
@@ -128,84 +112,49 @@ export class NodeLifecycle {
     this.orchestrator = new Orchestrator(this.manager, this.store);
     this.containerLookup = new ContainerLookup(containerConfigs);
 
-    if (chainEnabled) {
-      const walletConfig = this.config.chain.wallet as ConfigWallet;
-      const rpcUrl = this.config.chain.rpc_url as string;
-      const registryAddress = this.config.chain.registry_address as string;
-      const privateKey = add0x(walletConfig.private_key as string);
-      this.rpc = new RPC(rpcUrl, privateKey);
-      this.registry = new Registry(
-        this.rpc,
-        RPC.get_checksum_address(registryAddress)
-      );
-      const paymentAddress = walletConfig.payment_address
-        ? RPC.get_checksum_address(walletConfig.payment_address)
-        : undefined;
-      this.walletChecker = new WalletChecker(
-        this.rpc,
-        this.registry,
-        containerConfigs,
-        paymentAddress
-      );
-      this.guardian = new Guardian(
+    // Off-chain jobs are chain-agnostic, so they are filtered without a wallet checker. Delegated
+    // subscriptions are filtered by the guardian of the chain they are delivered on.
+    this.guardian = new Guardian(
+      containerConfigs,
+      chainEnabled,
+      this.containerLookup
+    );
+
+    for (const chainConfig of chainConfigs) {
+      const chain = new Chain(
+        chainConfig,
         containerConfigs,
-        chainEnabled,
         this.containerLookup,
-        this.walletChecker
-      );
-
-      await this.registry.populate_addresses();
-
-      this.coordinator = new Coordinator(
-        this.rpc,
-        this.registry.coordinator,
-        this.containerLookup
-      );
-      this.reader = new Reader(
-        this.rpc,
-        this.registry.reader,
-        this.containerLookup
-      );
-      this.wallet = new Wallet(
-        this.rpc,
-        this.coordinator,
-        privateKey,
-        BigInt(walletConfig.max_gas_limit),
-        paymentAddress,
-        walletConfig.allowed_sim_errors
-      );
-      this.paymentWallet = new PaymentWallet(paymentAddress, this.rpc);
-      this.processor = new ChainProcessor(
-        this.rpc,
-        this.coordinator,
-        this.wallet,
-        this.paymentWallet,
-        this.walletChecker,
-        this.registry,
         this.orchestrator,
-        this.containerLookup
-      );
-      this.listener = new ChainListener(
-        this.rpc,
-        this.coordinator,
-        this.registry,
-        this.reader,
-        this.guardian,
-        this.processor,
-        this.config.chain.trail_head_blocks,
-        this.config.chain.snapshot_sync
+        this.store,
+        webhook
       );
 
+      await chain.setup();
+
+      this.chains.push(chain);
       this.#asyncTasks = this.#asyncTasks.concat([
-        this.processor,
-        this.listener,
+        chain.processor,
+        chain.listener,
+        chain.balance_monitor,
       ]);
-    } else {
-      this.guardian = new Guardian(
-        containerConfigs,
-        chainEnabled,
-        this.containerLookup
-      );
+    }
+
+    if (this.config.forward_stats) {
+      if (this.config.stats.url)
+        this.#asyncTasks.push(
+          new StatSender(
+            this.config.stats,
+            this.store,
+            __version__,
+            containerConfigs,
+            this.chains
+          )
+        );
+      else
+        console.warn(
+          'forward_stats is enabled but no stats.url is configured, skipping'
+        );
     }
 
     this.#asyncTasks.push(
@@ -213,12 +162,11 @@ export class NodeLifecycle {
         this.guardian,
         this.manager,
         this.orchestrator,
-        this.processor,
+        this.chains,
         this.store,
-        this.config.chain,
         this.config.server,
         __version__,
-        this.wallet?.address
+        new MetricsCollector(this.store, __version__, this.chains)
       )
     );
   }
@@ -10,16 +10,26 @@ import {
   ContainerInputSchema,
   ContainerErrorSchema,
   ContainerOutputSchema,
+  JobResult,
 } from '../shared/job';
-import { OffchainJobMessageSchema } from '../shared/message';
+import { BaseMessageSchema, OffchainJobMessageSchema } from '../shared/message';
 import { ContainerManager } from './docker';
-import { DataStore } from './store';
+import { DataStore, formatOwner } from './store';
 
 export class Orchestrator {
   static fieldSchemas = {
     _manager: z.instanceof(ContainerManager),
     _store: z.instanceof(DataStore),
     _host: z.string(),
+    _running_jobs: z.record(
+      z
+        .object({
+          controller: z.custom<AbortController>(),
+          job: z.promise(ContainerResultSchema.array()),
+          message: OffchainJobMessageSchema,
+        })
+        .strict()
+    ),
   };
 
   static methodSchemas = {
@@ -42,17 +52,29 @@ export class Orchestrator {
         JobInputSchema,
         z.string().array(),
         OffchainJobMessageSchema.optional(),
-        z.boolean().optional()
+        z.boolean().optional(),
+        z.custom<AbortSignal>().optional(),
+        z.number().optional()
       )
       .returns(z.promise(ContainerResultSchema.array())),
     process_chain_processor_job: z
       .function()
-      .args(z.any(), JobInputSchema, z.string().array(), z.boolean())
+      .args(
+        z.any(),
+        JobInputSchema,
+        z.string().array(),
+        z.boolean(),
+        z.number().optional()
+      )
       .returns(z.promise(ContainerResultSchema.array())),
     process_offchain_job: z
       .function()
       .args(OffchainJobMessageSchema)
       .returns(z.promise(z.void())),
+    cancel_job: z
+      .function()
+      .args(BaseMessageSchema)
+      .returns(z.promise(z.boolean())),
     process_streaming_job: {
       args: {
         message: OffchainJobMessageSchema,
@@ -67,6 +89,7 @@ export class Orchestrator {
   #manager: ContainerManager;
   #store: DataStore;
   #host: string;
+  #running_jobs: z.infer<typeof Orchestrator.fieldSchemas._running_jobs>;
 
   constructor(manager, store) {
     this.#manager = Orchestrator.fieldSchemas._manager.parse(manager);
@@ -76,6 +99,7 @@ export class Orchestrator {
     this.#host = Orchestrator.fieldSchemas._host.parse(
       process.env.RUNTIME === 'docker' ? 'host.docker.internal' : 'localhost'
     );
+    this.#running_jobs = Orchestrator.fieldSchemas._running_jobs.parse({});
   }
 
   // Get the service output URL for the specified container.
@@ -108,9 +132,19 @@ export class Orchestrator {
   );
 
   // Runs a job by calling containers sequentially, piping their outputs into one another.
+  // If `signal` is aborted, the in-flight container call is aborted and the remaining containers are skipped.
+  // `chain_id` is the chain that an on-chain job (i.e. without `message`) is processed for.
   #run_job = Orchestrator.methodSchemas._run_job.implement(
-    async (job_id, job_input, containers, message, requires_proof) => {
-      await this.#store.set_running(message);
+    async (
+      job_id,
+      job_input,
+      containers,
+      message,
+      requires_proof,
+      signal,
+      chain_id
+    ) => {
+      await this.#store.set_running(message, chain_id);
 
       const results: ContainerResult[] = [];
 
@@ -129,6 +163,16 @@ export class Orchestrator {
 
       for (let i = 0; i < containers.length; i++) {
         const container = containers[i];
+
+        // Skip the remaining containers if the job was cancelled between container calls.
+        if (signal?.aborted && message) {
+          console.info('Job cancelled', { id: job_id, container });
+
+          await this.#store.set_cancelled(message, results);
+
+          return results;
+        }
+
         const url = this.#get_container_url(container);
         const headers = this.#get_headers(container);
         const controller = new AbortController();
@@ -143,7 +187,10 @@ export class Orchestrator {
             method: 'POST',
             headers,
             body: JSON.stringify(inputData),
-            signal: controller.signal,
+            // Abort request on timeout or job cancellation, whichever happens first.
+            signal: signal
+              ? AbortSignal.any([signal, controller.signal])
+              : controller.signal,
           });
 
           // Clear to avoid dangling timers.
@@ -170,6 +217,15 @@ export class Orchestrator {
         } catch (err: any) {
           clearTimeout(timeout);
 
+          // The in-flight container call was aborted due to job cancellation.
+          if (signal?.aborted && message) {
+            console.info('Job cancelled', { id: job_id, container });
+
+            await this.#store.set_cancelled(message, results);
+
+            return results;
+          }
+
           const containerError: ContainerError = {
             container,
             error: '',
@@ -186,10 +242,11 @@ export class Orchestrator {
 
           console.error('Container error', {
             id: job_id,
+            chain_id,
             ...containerError,
           });
 
-          await this.#store.set_failed(message, results);
+          await this.#store.set_failed(message, results, chain_id);
 
           this.#store.track_container_status(container, 'failed');
 
@@ -197,24 +254,33 @@ export class Orchestrator {
         }
       }
 
-      await this.#store.set_success(message, results);
+      await this.#store.set_success(message, results, chain_id);
 
       return results;
     }
   );
 
-  // Processes arbitrary job from ChainProcessor.
+  // Processes arbitrary job from the ChainProcessor of chain `chain_id`.
   process_chain_processor_job =
     Orchestrator.methodSchemas.process_chain_processor_job.implement(
-      (job_id, job_input, containers, requires_proof) =>
-        this.#run_job(job_id, job_input, containers, undefined, requires_proof)
+      (job_id, job_input, containers, requires_proof, chain_id) =>
+        this.#run_job(
+          job_id,
+          job_input,
+          containers,
+          undefined,
+          requires_proof,
+          undefined,
+          chain_id
+        )
     );
 
   // Processes off-chain job message.
   process_offchain_job =
     Orchestrator.methodSchemas.process_offchain_job.implement(
       async (message) => {
-        await this.#run_job(
+        const controller = new AbortController();
+        const job = this.#run_job(
           message.id,
           JobInputSchema.parse({
             source: JobLocation.OFFCHAIN,
@@ -223,11 +289,49 @@ export class Orchestrator {
           }),
           message.containers,
           message,
-          message.requires_proof
+          message.requires_proof,
+          controller.signal,
+          undefined
         );
+
+        // Track the job so that it can be cancelled from the moment it is accepted.
+        this.#running_jobs[message.id] = { controller, job, message };
+
+        try {
+          await job;
+        } finally {
+          delete this.#running_jobs[message.id];
+        }
       }
     );
 
+  // Cancels an off-chain job owned by `message`'s owner, whether it is running or has yet to call its first
+  // container. Resolves once the job has stopped, returning whether it was cancelled, i.e. false if the job
+  // is not tracked (or not cancellable, e.g. streaming jobs), or completed before it could be cancelled.
+  cancel_job = Orchestrator.methodSchemas.cancel_job.implement(
+    async (message) => {
+      const runningJob = this.#running_jobs[message.id];
+
+      if (
+        !runningJob ||
+        formatOwner(runningJob.message.ip, runningJob.message.owner) !==
+          formatOwner(message.ip, message.owner)
+      )
+        return false;
+
+      runningJob.controller.abort();
+
+      await runningJob.job;
+
+      const [job]: JobResult[] = await this.#store.get(
+        [runningJob.message],
+        false
+      );
+
+      return job?.status === 'cancelled';
+    }
+  );
+
   // Runs a streaming job.
   async *process_streaming_job(
     message: z.infer<
@@ -243,7 +347,8 @@ export class Orchestrator {
     await this.#store.set_running(
       Orchestrator.methodSchemas.process_streaming_job.args.message.parse(
         message
-      )
+      ),
+      undefined
     );
 
     try {
@@ -283,12 +388,16 @@ export class Orchestrator {
 
       const output = Buffer.concat(chunks).toString('utf-8');
 
-      await this.#store.set_success(message, [
-        ContainerOutputSchema.parse({
-          container,
-          output: JSON.parse(output),
-        }),
-      ]);
+      await this.#store.set_success(
+        message,
+        [
+          ContainerOutputSchema.parse({
+            container,
+            output: JSON.parse(output),
+          }),
+        ],
+        undefined
+      );
 
       this.#store.track_container_status(container, 'success');
     } catch (err: any) {
@@ -300,12 +409,16 @@ export class Orchestrator {
         error,
       });
 
-      await this.#store.set_failed(message, [
-        ContainerErrorSchema.parse({
-          container,
-          error,
-        }),
-      ]);
+      await this.#store.set_failed(
+        message,
+        [
+          ContainerErrorSchema.parse({
+            container,
+            error,
+          }),
+        ],
+        undefined
+      );
 
       this.#store.track_container_status(container, 'failed');
     }
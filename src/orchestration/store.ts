@@ -1,22 +1,65 @@
 // Reference: https://github.com/ritual-net/infernet-node/blob/9e67ac3af88092a8ac181829da33d863fd8ea990/src/orchestration/store.py.
 import { z } from 'zod';
+import { EventEmitter } from 'events';
 import { createClient, RedisClientType } from 'redis';
 import {
   JobStatusSchema,
   ContainerResultSchema,
   JobResultSchema,
 } from '../shared/job';
-import { BaseMessageSchema, OffchainMessageSchema } from '../shared/message';
+import {
+  BaseMessageSchema,
+  MessageType,
+  OffchainMessageSchema,
+} from '../shared/message';
+import { StateStore } from '../shared/service';
+import { WebhookDispatcher } from './webhook';
 
 const StatusCounterSchema = z
   .object({
     success: z.number().default(0),
     failed: z.number().default(0),
+    cancelled: z.number().default(0),
   })
   .strict();
 
 type StatusCounter = z.infer<typeof StatusCounterSchema>;
 
+// Status counters keyed by an arbitrary string (e.g. container ID), created on first access.
+const createStatusCounters = (): ProxyHandler<StatusCounter> =>
+  new Proxy(
+    {},
+    {
+      get: (target, prop) => {
+        // Zod probes `then` to detect promises when parsing, which shouldn't create a counter.
+        if (prop !== 'then' && !(prop in target))
+          target[prop] = StatusCounterSchema.parse({});
+
+        return target[prop];
+      },
+    }
+  );
+
+export const JobEventSchema = z
+  .object({
+    owner: z.string(),
+    job: JobResultSchema,
+  })
+  .strict();
+
+export type JobEvent = z.infer<typeof JobEventSchema>;
+
+const FormatOwnerSchema = z
+  .function()
+  .args(z.string(), z.string().optional())
+  .returns(z.string());
+
+// Namespace that owns a job: its API key's ID, or the client's IP address if API keys are disabled.
+// Distinct prefixes keep the two from colliding.
+export const formatOwner = FormatOwnerSchema.implement((ip, owner) =>
+  owner !== undefined ? `key:${owner}` : `ip:${ip}`
+);
+
 class KeyFormatter {
   static methodSchemas = {
     format: z
@@ -24,20 +67,20 @@ class KeyFormatter {
       .args(BaseMessageSchema)
       .returns(z.string().includes(':')),
     get_id: z.function().args(z.string()).returns(z.string()),
-    matchstr_address: z.function().args(z.string().ip()).returns(z.string()),
+    matchstr_address: z.function().args(z.string()).returns(z.string()),
   };
 
-  // Concatenates address and message id to obtain unique key.
+  // Concatenates owner namespace (`key:<id>`, or `ip:<ip>`) and message id to obtain unique key.
   static format = KeyFormatter.methodSchemas.format.implement(
-    ({ ip, id }) => `${ip}:${id}`
+    ({ ip, id, owner }) => `${formatOwner(ip, owner)}:${id}`
   );
 
-  // Get message id from key.
+  // Get message id from key. IPv6 addresses contain colons, so take the last segment.
   static get_id = KeyFormatter.methodSchemas.get_id.implement(
-    (key) => key.split(':')[1]
+    (key) => key.split(':').pop() as string
   );
 
-  // Match string for a given IP address.
+  // Match string for a given owner namespace (see `formatOwner`).
   static matchstr_address =
     KeyFormatter.methodSchemas.matchstr_address.implement(
       (address) => `${address}:*`
@@ -53,6 +96,16 @@ class DataStoreCounters {
       })
       .strict(),
     container_counters: z.custom<ProxyHandler<StatusCounter>>(),
+    job_totals: z
+      .object({
+        offchain: StatusCounterSchema,
+        onchain: StatusCounterSchema,
+      })
+      .strict(),
+    container_totals: z.custom<ProxyHandler<StatusCounter>>(),
+    // On-chain job counters, keyed by chain ID.
+    chain_job_counters: z.custom<ProxyHandler<StatusCounter>>(),
+    chain_job_totals: z.custom<ProxyHandler<StatusCounter>>(),
   };
 
   static methodSchemas = {
@@ -71,16 +124,35 @@ class DataStoreCounters {
         z.union([z.literal('offchain'), z.literal('onchain')])
       ),
     increment_container_counter: z.function().args(JobStatusSchema, z.string()),
+    pop_chain_job_counters: z
+      .function()
+      .returns(this.fieldSchemas.chain_job_counters),
+    increment_chain_job_counter: z.function().args(JobStatusSchema, z.number()),
   };
 
   job_counters: z.infer<typeof DataStoreCounters.fieldSchemas.job_counters>;
   container_counters: z.infer<
     typeof DataStoreCounters.fieldSchemas.container_counters
   >;
+  // Unlike the counters above, totals are never reset (e.g. for exporting Prometheus counters).
+  job_totals: z.infer<typeof DataStoreCounters.fieldSchemas.job_totals>;
+  container_totals: z.infer<
+    typeof DataStoreCounters.fieldSchemas.container_totals
+  >;
+  chain_job_counters: z.infer<
+    typeof DataStoreCounters.fieldSchemas.chain_job_counters
+  >;
+  chain_job_totals: z.infer<
+    typeof DataStoreCounters.fieldSchemas.chain_job_totals
+  >;
 
   constructor() {
     this.job_counters = this.#default_job_counters();
     this.container_counters = this.#default_container_counters();
+    this.job_totals = this.#default_job_counters();
+    this.container_totals = this.#default_container_counters();
+    this.chain_job_counters = createStatusCounters();
+    this.chain_job_totals = createStatusCounters();
   }
 
   // Default value for the `job_counters` field.
@@ -103,18 +175,7 @@ class DataStoreCounters {
   // Default value for the `container_counters` field.
   #default_container_counters =
     DataStoreCounters.methodSchemas._default_container_counters.implement(
-      () =>
-        new Proxy(
-          {},
-          {
-            get: (target, prop) => {
-              if (!(prop in target))
-                target[prop] = StatusCounterSchema.parse({});
-
-              return target[prop];
-            },
-          }
-        )
+      createStatusCounters
     );
 
   // Resets `container_counters` to its default, and returns its pre-reset value.
@@ -131,6 +192,7 @@ class DataStoreCounters {
     DataStoreCounters.methodSchemas.increment_job_counter.implement(
       (status, location) => {
         this.job_counters[location][status] += 1;
+        this.job_totals[location][status] += 1;
       }
     );
 
@@ -139,14 +201,36 @@ class DataStoreCounters {
     DataStoreCounters.methodSchemas.increment_container_counter.implement(
       (status, container) => {
         this.container_counters[container][status] += 1;
+        this.container_totals[container][status] += 1;
+      }
+    );
+
+  // Resets `chain_job_counters`, and returns its pre-reset value.
+  pop_chain_job_counters =
+    DataStoreCounters.methodSchemas.pop_chain_job_counters.implement(() => {
+      const chainJobCounters = this.chain_job_counters;
+      this.chain_job_counters = createStatusCounters();
+
+      return chainJobCounters;
+    });
+
+  // Increment a chain's on-chain job counter.
+  increment_chain_job_counter =
+    DataStoreCounters.methodSchemas.increment_chain_job_counter.implement(
+      (status, chain_id) => {
+        this.chain_job_counters[chain_id][status] += 1;
+        this.chain_job_totals[chain_id][status] += 1;
       }
     );
 }
 
-export class DataStore {
+export class DataStore extends StateStore {
   static fieldSchemas = {
     counters: z.instanceof(DataStoreCounters),
+    events: z.instanceof(EventEmitter),
     _onchain_pending: z.number(),
+    _chain_pending: z.record(z.number()),
+    _webhook: z.instanceof(WebhookDispatcher).optional(),
   };
 
   static methodSchemas = {
@@ -161,6 +245,11 @@ export class DataStore {
           .strict()
       )
     ),
+    get_chain_pending_counters: z.function().returns(z.record(z.number())),
+    _track_chain_pending: z
+      .function()
+      .args(z.number().optional(), z.number())
+      .returns(z.void()),
     _set: z
       .function()
       .args(
@@ -175,57 +264,101 @@ export class DataStore {
       .returns(z.promise(JobResultSchema.array())),
     _get_pending: z
       .function()
-      .args(z.string().ip())
+      .args(z.string())
       .returns(z.promise(z.string().array())),
     _get_completed: z
       .function()
-      .args(z.string().ip())
+      .args(z.string())
       .returns(z.promise(z.string().array())),
     get_job_ids: z
       .function()
-      .args(z.string().ip(), z.boolean().optional())
+      .args(z.string(), z.boolean().optional())
       .returns(z.promise(z.string().array())),
     set_running: z
       .function()
-      .args(OffchainMessageSchema.optional())
+      .args(OffchainMessageSchema.optional(), z.number().optional())
       .returns(z.promise(z.void())),
     set_success: z
       .function()
-      .args(OffchainMessageSchema.optional(), ContainerResultSchema.array())
+      .args(
+        OffchainMessageSchema.optional(),
+        ContainerResultSchema.array(),
+        z.number().optional()
+      )
       .returns(z.promise(z.void())),
     set_failed: z
       .function()
-      .args(OffchainMessageSchema.optional(), ContainerResultSchema.array())
+      .args(
+        OffchainMessageSchema.optional(),
+        ContainerResultSchema.array(),
+        z.number().optional()
+      )
       .returns(z.promise(z.void())),
+    set_cancelled: z
+      .function()
+      .args(OffchainMessageSchema, ContainerResultSchema.array())
+      .returns(z.promise(z.boolean())),
     track_container_status: z.function().args(z.string(), JobStatusSchema),
+    get_state: z
+      .function()
+      .args(z.string())
+      .returns(z.promise(z.string().optional())),
+    set_state: z
+      .function()
+      .args(z.string(), z.string())
+      .returns(z.promise(z.void())),
+    append_state: z
+      .function()
+      .args(z.string(), z.string())
+      .returns(z.promise(z.void())),
+    get_state_list: z
+      .function()
+      .args(z.string())
+      .returns(z.promise(z.string().array())),
   };
 
   counters: z.infer<typeof DataStore.fieldSchemas.counters>;
+  events: z.infer<typeof DataStore.fieldSchemas.events>;
   #onchain_pending: z.infer<typeof DataStore.fieldSchemas._onchain_pending>;
+  // Pending on-chain jobs, keyed by chain ID.
+  #chain_pending: z.infer<typeof DataStore.fieldSchemas._chain_pending>;
+  #webhook?: z.infer<typeof DataStore.fieldSchemas._webhook>;
   #completed: RedisClientType;
   #pending: RedisClientType;
+  #state: RedisClientType;
+
+  constructor(host: string, port: number, webhook?: WebhookDispatcher) {
+    super();
 
-  constructor(host: string, port: number) {
     this.counters = DataStore.fieldSchemas.counters.parse(
       new DataStoreCounters()
     );
+    // Emits a "job" event with a `JobEvent` payload on every off-chain job status transition.
+    this.events = DataStore.fieldSchemas.events.parse(new EventEmitter());
+    // Every job event stream client adds a listener, so lift the default listener limit.
+    this.events.setMaxListeners(0);
     this.#onchain_pending = DataStore.fieldSchemas._onchain_pending.parse(0);
+    this.#chain_pending = DataStore.fieldSchemas._chain_pending.parse({});
+    this.#webhook = DataStore.fieldSchemas._webhook.parse(webhook);
 
     // Needs to be set up by calling `setup_redis_clients` first.
     this.#completed = createClient({ socket: { host, port }, database: 0 });
     this.#pending = createClient({ socket: { host, port }, database: 1 });
+    this.#state = createClient({ socket: { host, port }, database: 2 });
   }
 
-  // Set up Redis clients for completed and pending jobs.
+  // Set up Redis clients for completed and pending jobs, and persisted component state.
   setup = DataStore.methodSchemas.setup.implement(async () => {
     try {
       // Connect to the databases.
       await this.#completed.connect();
       await this.#pending.connect();
+      await this.#state.connect();
 
       // Check connection.
       await this.#completed.ping();
       await this.#pending.ping();
+      await this.#state.ping();
 
       // Flush pending jobs DB.
       await this.#pending.flushDb();
@@ -246,21 +379,37 @@ export class DataStore {
     })
   );
 
+  // Returns pending on-chain job counters, keyed by chain ID.
+  get_chain_pending_counters =
+    DataStore.methodSchemas.get_chain_pending_counters.implement(() => ({
+      ...this.#chain_pending,
+    }));
+
+  // Adjusts a chain's pending on-chain job counter.
+  #track_chain_pending = DataStore.methodSchemas._track_chain_pending.implement(
+    (chain_id, delta) => {
+      if (chain_id === undefined) return;
+
+      this.#chain_pending[chain_id] =
+        (this.#chain_pending[chain_id] ?? 0) + delta;
+    }
+  );
+
   // Set job data.
   #set = DataStore.methodSchemas._set.implement(
     async (message, status, results) => {
+      const jobResult = JobResultSchema.parse({
+        id: message.id,
+        status,
+        intermediate_results: results.slice(0, results.length - 1),
+        result: results[results.length - 1],
+      });
       // Convert job result object into a string type so that it can be stored.
-      const job = JSON.stringify(
-        JobResultSchema.parse({
-          id: message.id,
-          status,
-          intermediate_results: results.slice(0, results.length - 1),
-          result: results[results.length - 1],
-        })
-      );
+      const job = JSON.stringify(jobResult);
       const formattedMessage = KeyFormatter.format({
         id: message.id,
         ip: message.ip,
+        owner: message.owner,
       });
 
       if (status === 'running') {
@@ -272,7 +421,28 @@ export class DataStore {
 
         // Set job as completed.
         await this.#completed.set(formattedMessage, job);
+
+        // Notify the job's webhook (if any) in the background, so that slow receivers
+        // do not hold up job processing.
+        if (
+          this.#webhook &&
+          message.type === MessageType.OffchainJob &&
+          message.callback_url
+        )
+          this.#webhook.notify(
+            message.callback_url,
+            message.callback_secret,
+            jobResult
+          );
       }
+
+      this.events.emit(
+        'job',
+        JobEventSchema.parse({
+          owner: formatOwner(message.ip, message.owner),
+          job: jobResult,
+        })
+      );
     }
   );
 
@@ -283,6 +453,7 @@ export class DataStore {
         KeyFormatter.format({
           id: message.id,
           ip: message.ip,
+          owner: message.owner,
         })
       );
       const jobs = ((await this.#completed.mGet(keys)) ?? []).concat(
@@ -301,7 +472,7 @@ export class DataStore {
     }
   );
 
-  // Get all pending job IDs for a given address.
+  // Get all pending job IDs for a given owner.
   #get_pending = DataStore.methodSchemas._get_pending.implement(
     async (address) => {
       const scan = await this.#pending.scanIterator({
@@ -317,7 +488,7 @@ export class DataStore {
     }
   );
 
-  // Get all completed job IDs for a given address.
+  // Get all completed job IDs for a given owner.
   #get_completed = DataStore.methodSchemas._get_completed.implement(
     async (address) => {
       const scan = await this.#completed.scanIterator({
@@ -333,18 +504,18 @@ export class DataStore {
     }
   );
 
-  // Get pending, complete, or all job IDs for a given IP address.
+  // Get pending, complete, or all job IDs for a given owner namespace (see `formatOwner`).
   get_job_ids = DataStore.methodSchemas.get_job_ids.implement(
-    async (ip, pending) => {
+    async (owner, pending) => {
       let jobIds;
 
       if (pending) {
-        jobIds = await this.#get_pending(ip);
+        jobIds = await this.#get_pending(owner);
       } else if (pending === false) {
-        jobIds = await this.#get_completed(ip);
+        jobIds = await this.#get_completed(owner);
       } else {
-        jobIds = (await this.#get_pending(ip)).concat(
-          await this.#get_completed(ip)
+        jobIds = (await this.#get_pending(owner)).concat(
+          await this.#get_completed(owner)
         );
       }
 
@@ -353,25 +524,31 @@ export class DataStore {
   );
 
   // Set a job's status to "running".
+  // On-chain jobs are only counted, by `chain_id` if set.
   set_running = DataStore.methodSchemas.set_running.implement(
-    async (message) => {
+    async (message, chain_id) => {
       if (message) {
         await this.#set(message, 'running', []);
       } else {
         this.#onchain_pending += 1;
+        this.#track_chain_pending(chain_id, 1);
       }
     }
   );
 
   // Set a job's status to "success".
   set_success = DataStore.methodSchemas.set_success.implement(
-    async (message, results) => {
+    async (message, results, chain_id) => {
       const successStatus = JobStatusSchema.parse('success');
 
       if (message) {
         await this.#set(message, successStatus, results);
       } else {
         this.#onchain_pending -= 1;
+        this.#track_chain_pending(chain_id, -1);
+
+        if (chain_id !== undefined)
+          this.counters.increment_chain_job_counter(successStatus, chain_id);
       }
 
       this.counters.increment_job_counter(
@@ -383,13 +560,17 @@ export class DataStore {
 
   // Set a job's status to "failed".
   set_failed = DataStore.methodSchemas.set_failed.implement(
-    async (message, results) => {
+    async (message, results, chain_id) => {
       const failedStatus = JobStatusSchema.parse('failed');
 
       if (message) {
         await this.#set(message, failedStatus, results);
       } else {
         this.#onchain_pending -= 1;
+        this.#track_chain_pending(chain_id, -1);
+
+        if (chain_id !== undefined)
+          this.counters.increment_chain_job_counter(failedStatus, chain_id);
       }
 
       this.counters.increment_job_counter(
@@ -399,6 +580,23 @@ export class DataStore {
     }
   );
 
+  // Set a job's status to "cancelled". Only off-chain jobs can be cancelled. Jobs that have already completed
+  // keep their result. Returns whether the job was cancelled.
+  set_cancelled = DataStore.methodSchemas.set_cancelled.implement(
+    async (message, results) => {
+      const cancelledStatus = JobStatusSchema.parse('cancelled');
+
+      if (await this.#completed.exists(KeyFormatter.format(message)))
+        return false;
+
+      await this.#set(message, cancelledStatus, results);
+
+      this.counters.increment_job_counter(cancelledStatus, 'offchain');
+
+      return true;
+    }
+  );
+
   // Track a container's status.
   track_container_status =
     DataStore.methodSchemas.track_container_status.implement(
@@ -406,4 +604,28 @@ export class DataStore {
         this.counters.increment_container_counter(status, container);
       }
     );
+
+  // Get persisted component state by key.
+  get_state = DataStore.methodSchemas.get_state.implement(
+    async (key) => (await this.#state.get(key)) ?? undefined
+  );
+
+  // Persist component state by key.
+  set_state = DataStore.methodSchemas.set_state.implement(
+    async (key, value) => {
+      await this.#state.set(key, value);
+    }
+  );
+
+  // Append to a persisted list by key.
+  append_state = DataStore.methodSchemas.append_state.implement(
+    async (key, value) => {
+      await this.#state.rPush(key, value);
+    }
+  );
+
+  // Get a persisted list by key.
+  get_state_list = DataStore.methodSchemas.get_state_list.implement((key) =>
+    this.#state.lRange(key, 0, -1)
+  );
 }
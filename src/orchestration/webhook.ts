@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import { createHmac } from 'crypto';
+import { lookup } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent, fetch } from 'undici';
+import { JobResultSchema } from '../shared/job';
+import { delay, getUnixTimestamp } from '../utils/helpers';
+
+// Loopback, link-local, private and reserved ranges. Job callbacks are set by clients, so they may not
+// resolve to these, or they could be used to reach the node's own admin routes and internal services.
+const BLOCKED_ADDRESSES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const)
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const)
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+
+const isBlockedAddress = (address: string) =>
+  BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Thrown when a callback's host resolves to a blocked address. Not retried.
+export class BlockedDestinationError extends Error {}
+
+export class WebhookDispatcher {
+  static fieldSchemas = {
+    _retries: z.number().int().nonnegative(),
+    _sleep: z.number().nonnegative(),
+    _backoff: z.number().positive(),
+    _timeout: z.number().positive(),
+    _allowed_private_hosts: z.string().array(),
+    _restricted_agent: z.instanceof(Agent),
+  };
+
+  static methodSchemas = {
+    sign: z
+      .function()
+      .args(z.string(), z.number(), z.string())
+      .returns(z.string()),
+    _check_destination: z.function().args(z.string().url()).returns(z.void()),
+    _post: z
+      .function()
+      .args(z.string().url(), z.string(), z.string().optional(), z.boolean())
+      .returns(z.promise(z.void())),
+    _deliver: z
+      .function()
+      .args(
+        z.string().url(),
+        z.string().optional(),
+        z.string(),
+        z.record(z.any()),
+        z.boolean()
+      )
+      .returns(z.promise(z.boolean())),
+    notify: z
+      .function()
+      .args(z.string().url(), z.string().optional(), JobResultSchema)
+      .returns(z.promise(z.boolean())),
+    notify_alert: z
+      .function()
+      .args(z.string().url(), z.string().optional(), z.record(z.any()))
+      .returns(z.promise(z.boolean())),
+  };
+
+  #retries: z.infer<typeof WebhookDispatcher.fieldSchemas._retries>;
+  #sleep: z.infer<typeof WebhookDispatcher.fieldSchemas._sleep>;
+  #backoff: z.infer<typeof WebhookDispatcher.fieldSchemas._backoff>;
+  #timeout: z.infer<typeof WebhookDispatcher.fieldSchemas._timeout>;
+  #allowed_private_hosts: z.infer<
+    typeof WebhookDispatcher.fieldSchemas._allowed_private_hosts
+  >;
+  // Connects restricted requests only to the addresses it checked, so that a host can't pass the check and
+  // then resolve to a blocked address when connected to (i.e. DNS rebinding).
+  #restricted_agent: z.infer<
+    typeof WebhookDispatcher.fieldSchemas._restricted_agent
+  >;
+
+  constructor(config_webhook) {
+    this.#retries = WebhookDispatcher.fieldSchemas._retries.parse(
+      config_webhook.retries
+    );
+    this.#sleep = WebhookDispatcher.fieldSchemas._sleep.parse(
+      config_webhook.sleep
+    );
+    this.#backoff = WebhookDispatcher.fieldSchemas._backoff.parse(
+      config_webhook.backoff
+    );
+    this.#timeout = WebhookDispatcher.fieldSchemas._timeout.parse(
+      config_webhook.timeout
+    );
+    this.#allowed_private_hosts =
+      WebhookDispatcher.fieldSchemas._allowed_private_hosts.parse(
+        config_webhook.allowed_private_hosts.map((host) => host.toLowerCase())
+      );
+
+    // Resolves hosts like `dns.lookup`, failing if any of their addresses is blocked.
+    const restrictedLookup: LookupFunction = (hostname, options, callback) =>
+      lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err, '');
+
+        const blocked = this.#allowed_private_hosts.includes(
+          hostname.toLowerCase()
+        )
+          ? undefined
+          : addresses.find(({ address }) => isBlockedAddress(address));
+
+        if (blocked)
+          return callback(
+            new BlockedDestinationError(
+              `Webhook host ${hostname} resolves to blocked address ${blocked.address}`
+            ),
+            ''
+          );
+
+        if (options.all) return callback(null, addresses);
+
+        callback(null, addresses[0].address, addresses[0].family);
+      });
+
+    this.#restricted_agent =
+      WebhookDispatcher.fieldSchemas._restricted_agent.parse(
+        new Agent({ connect: { lookup: restrictedLookup } })
+      );
+
+    console.debug('Initialized WebhookDispatcher', {
+      retries: this.#retries,
+    });
+  }
+
+  // HMAC-SHA256 signature of `${timestamp}.${body}`, hex-encoded. Receivers should recompute it
+  // with their secret and compare it against the `X-Infernet-Signature` header.
+  static sign = this.methodSchemas.sign.implement((secret, timestamp, body) =>
+    createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  );
+
+  // Throws a `BlockedDestinationError` if the URL's host is a blocked IP address, unless it is in
+  // `allowed_private_hosts`. Hostnames are checked by the restricted agent when they're resolved, but IP
+  // addresses are connected to without being resolved.
+  #check_destination =
+    WebhookDispatcher.methodSchemas._check_destination.implement((url) => {
+      const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+      if (
+        isIP(host) &&
+        isBlockedAddress(host) &&
+        !this.#allowed_private_hosts.includes(host)
+      )
+        throw new BlockedDestinationError(
+          `Webhook host ${host} is a blocked address`
+        );
+    });
+
+  // Sends a single webhook request, throwing if the receiver does not respond with a 2xx status.
+  // Restricted requests are only sent to allowed destinations, and don't follow redirects.
+  #post = WebhookDispatcher.methodSchemas._post.implement(
+    async (url, body, secret, restricted) => {
+      if (restricted) this.#check_destination(url);
+
+      const headers: { [key: string]: string } = {
+        'Content-Type': 'application/json',
+      };
+
+      if (secret) {
+        const timestamp = getUnixTimestamp();
+
+        headers['X-Infernet-Timestamp'] = `${timestamp}`;
+        headers['X-Infernet-Signature'] = `sha256=${WebhookDispatcher.sign(
+          secret,
+          timestamp,
+          body
+        )}`;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.#timeout),
+        redirect: restricted ? 'error' : 'follow',
+        dispatcher: restricted ? this.#restricted_agent : undefined,
+      }).catch((err) => {
+        // Surface blocked destinations, which fetch wraps in a generic network error.
+        throw err?.cause instanceof BlockedDestinationError ? err.cause : err;
+      });
+
+      if (!response.ok)
+        throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  );
+
+  // Posts `body` to `url`, retrying with exponential backoff. `context` identifies the webhook in logs.
+  // Returns whether it was delivered.
+  #deliver = WebhookDispatcher.methodSchemas._deliver.implement(
+    async (url, secret, body, context, restricted) => {
+      let sleep = this.#sleep;
+
+      for (let attempt = 0; attempt <= this.#retries; attempt++) {
+        try {
+          await this.#post(url, body, secret, restricted);
+
+          console.debug('Delivered webhook', { ...context, attempt });
+
+          return true;
+        } catch (err) {
+          console.warn('Failed to deliver webhook', {
+            ...context,
+            url,
+            attempt,
+            err: `${err}`,
+          });
+
+          if (
+            err instanceof BlockedDestinationError ||
+            attempt === this.#retries
+          )
+            break;
+
+          await delay(sleep);
+
+          sleep *= this.#backoff;
+        }
+      }
+
+      console.error('Giving up on webhook', {
+        ...context,
+        url,
+        retries: this.#retries,
+      });
+
+      return false;
+    }
+  );
+
+  // Posts a job result to its client-provided callback `url`. Returns whether it was delivered.
+  notify = WebhookDispatcher.methodSchemas.notify.implement(
+    (url, secret, job_result) =>
+      this.#deliver(
+        url,
+        secret,
+        JSON.stringify(job_result),
+        { id: job_result.id, status: job_result.status },
+        true
+      )
+  );
+
+  // Posts an operational alert (e.g. a low balance) to the operator-configured `url`. Returns whether it
+  // was delivered.
+  notify_alert = WebhookDispatcher.methodSchemas.notify_alert.implement(
+    (url, secret, alert) =>
+      this.#deliver(
+        url,
+        secret,
+        JSON.stringify(alert),
+        { alert: alert.type },
+        false
+      )
+  );
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import {
+  APIKeyScopeSchema,
+  ConfigAPIKey,
+  ConfigAPIKeySchema,
+} from '../shared/config';
+
+const HashAPIKeySchema = z.function().args(z.string()).returns(z.string());
+
+// Keys are looked up by their SHA-256 digest, so that plaintext keys are never compared directly.
+const hashAPIKey = HashAPIKeySchema.implement((key) =>
+  createHash('sha256').update(key).digest('hex')
+);
+
+export class APIKeyAuthenticator {
+  static fieldSchemas = {
+    _keys: z.record(ConfigAPIKeySchema),
+  };
+
+  static methodSchemas = {
+    enabled: {
+      returns: z.boolean(),
+    },
+    authenticate: z
+      .function()
+      .args(z.record(z.any()))
+      .returns(ConfigAPIKeySchema.optional()),
+    id: z.function().args(ConfigAPIKeySchema).returns(z.string()),
+    has_scope: z
+      .function()
+      .args(ConfigAPIKeySchema, APIKeyScopeSchema)
+      .returns(z.boolean()),
+    allows_containers: z
+      .function()
+      .args(ConfigAPIKeySchema, z.string().array())
+      .returns(z.boolean()),
+  };
+
+  #keys: z.infer<typeof APIKeyAuthenticator.fieldSchemas._keys>;
+
+  constructor(api_keys: ConfigAPIKey[]) {
+    this.#keys = APIKeyAuthenticator.fieldSchemas._keys.parse(
+      api_keys.reduce(
+        (acc, apiKey) => ({
+          ...acc,
+          [hashAPIKey(apiKey.key)]: apiKey,
+        }),
+        {}
+      )
+    );
+
+    console.debug('Initialized APIKeyAuthenticator', {
+      keys: api_keys.map(({ name }) => name),
+    });
+  }
+
+  // Returns whether API key authentication is enabled (i.e. at least one key is configured).
+  get enabled(): z.infer<
+    typeof APIKeyAuthenticator.methodSchemas.enabled.returns
+  > {
+    return Object.keys(this.#keys).length > 0;
+  }
+
+  // Returns the API key config matching the request's `X-API-Key` or bearer `Authorization` header.
+  authenticate = APIKeyAuthenticator.methodSchemas.authenticate.implement(
+    (headers) => {
+      const authorization: string | undefined = headers['authorization'];
+      const key: string | undefined =
+        headers['x-api-key'] ??
+        (authorization?.startsWith('Bearer ')
+          ? authorization.substring(7)
+          : undefined);
+
+      if (!key) return undefined;
+
+      return this.#keys[hashAPIKey(key)];
+    }
+  );
+
+  // Returns an API key's ID, which namespaces its jobs. Derived from the key's digest, so that it is stable
+  // across renames and doesn't reveal the key.
+  id = APIKeyAuthenticator.methodSchemas.id.implement((api_key) =>
+    hashAPIKey(api_key.key).substring(0, 16)
+  );
+
+  // Returns whether an API key has been granted a scope.
+  has_scope = APIKeyAuthenticator.methodSchemas.has_scope.implement(
+    (api_key, scope) => api_key.scopes.includes(scope)
+  );
+
+  // Returns whether an API key may run jobs on all of the given containers.
+  allows_containers =
+    APIKeyAuthenticator.methodSchemas.allows_containers.implement(
+      (api_key, containers) =>
+        !api_key.containers.length ||
+        containers.every((container) => api_key.containers.includes(container))
+    );
+}
@@ -0,0 +1,316 @@
+import { z } from 'zod';
+import { DataStore } from '../orchestration/store';
+import { Chain } from '../chain/chain';
+import { RPC_LATENCY_BUCKETS } from '../chain/rpc';
+
+const MetricTypeSchema = z.enum(['counter', 'gauge', 'histogram']);
+
+const MetricSampleSchema = z
+  .object({
+    // Suffix appended to the metric name, e.g. "_bucket" for histograms.
+    suffix: z.string().default(''),
+    labels: z.record(z.string()).default({}),
+    value: z.union([z.number(), z.bigint()]),
+  })
+  .strict();
+
+const FormatMetricSchema = z
+  .function()
+  .args(z.string(), MetricTypeSchema, z.string(), MetricSampleSchema.array())
+  .returns(z.string());
+
+// Escapes a label value as required by the Prometheus text exposition format.
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+// Formats a metric family in the Prometheus text exposition format.
+// Reference: https://prometheus.io/docs/instrumenting/exposition_formats/#text-based-format.
+const formatMetric = FormatMetricSchema.implement(
+  (name, type, help, samples) => {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+    samples.forEach(({ suffix, labels, value }) => {
+      const labelPairs = Object.entries(labels).map(
+        ([key, val]) => `${key}="${escapeLabelValue(val)}"`
+      );
+      const formattedLabels = labelPairs.length
+        ? `{${labelPairs.join(',')}}`
+        : '';
+
+      lines.push(`${name}${suffix}${formattedLabels} ${value}`);
+    });
+
+    return lines.join('\n');
+  }
+);
+
+export class MetricsCollector {
+  static fieldSchemas = {
+    _store: z.instanceof(DataStore),
+    _version: z.string(),
+    _chains: z.instanceof(Chain).array(),
+  };
+
+  static methodSchemas = {
+    collect: z.function().returns(z.promise(z.string())),
+  };
+
+  #store: z.infer<typeof MetricsCollector.fieldSchemas._store>;
+  #version: z.infer<typeof MetricsCollector.fieldSchemas._version>;
+  #chains: z.infer<typeof MetricsCollector.fieldSchemas._chains>;
+
+  constructor(store, version, chains) {
+    this.#store = MetricsCollector.fieldSchemas._store.parse(store);
+    this.#version = MetricsCollector.fieldSchemas._version.parse(version);
+    this.#chains = MetricsCollector.fieldSchemas._chains.parse(chains);
+  }
+
+  // Collects node metrics in the Prometheus text exposition format.
+  collect = MetricsCollector.methodSchemas.collect.implement(async () => {
+    const { job_totals, container_totals } = this.#store.counters;
+    const pending = await this.#store.get_pending_counters();
+    const metrics = [
+      formatMetric('infernet_node_info', 'gauge', 'Node version.', [
+        { labels: { version: this.#version }, value: 1 },
+      ]),
+      formatMetric(
+        'infernet_jobs_total',
+        'counter',
+        'Completed jobs by location and status.',
+        Object.entries(job_totals).flatMap(([location, counter]) =>
+          Object.entries(counter).map(([status, value]) => ({
+            labels: { location, status },
+            value,
+          }))
+        )
+      ),
+      formatMetric(
+        'infernet_container_jobs_total',
+        'counter',
+        'Completed container runs by container and status.',
+        Object.keys(container_totals).flatMap((container) =>
+          Object.entries(container_totals[container]).map(
+            ([status, value]) => ({
+              labels: { container, status },
+              value: value as number,
+            })
+          )
+        )
+      ),
+      formatMetric(
+        'infernet_jobs_pending',
+        'gauge',
+        'Pending jobs by location.',
+        Object.entries(pending).map(([location, value]) => ({
+          labels: { location },
+          value,
+        }))
+      ),
+    ];
+
+    if (this.#chains.length) {
+      const { chain_job_totals } = this.#store.counters;
+      const chainPending = this.#store.get_chain_pending_counters();
+      // Per-chain metrics are labelled by chain name and ID.
+      const chainLabels = this.#chains.map(({ name, chain_id }) => ({
+        chain: name,
+        chain_id: `${chain_id}`,
+      }));
+
+      metrics.push(
+        formatMetric(
+          'infernet_chain_jobs_total',
+          'counter',
+          'Completed on-chain jobs by chain and status.',
+          this.#chains.flatMap(({ chain_id }, i) =>
+            Object.entries(chain_job_totals[chain_id]).map(
+              ([status, value]) => ({
+                labels: { ...chainLabels[i], status },
+                value: value as number,
+              })
+            )
+          )
+        ),
+        formatMetric(
+          'infernet_chain_jobs_pending',
+          'gauge',
+          'Pending on-chain jobs by chain.',
+          this.#chains.map(({ chain_id }, i) => ({
+            labels: chainLabels[i],
+            value: chainPending[chain_id] ?? 0,
+          }))
+        ),
+        formatMetric(
+          'infernet_subscriptions_tracked',
+          'gauge',
+          'Subscriptions tracked by the chain processor, by chain and type.',
+          this.#chains.flatMap(({ processor }, i) => {
+            const counts = processor.tracking_counts;
+
+            return [
+              {
+                labels: { ...chainLabels[i], type: 'onchain' },
+                value: counts.subscriptions,
+              },
+              {
+                labels: { ...chainLabels[i], type: 'delegated' },
+                value: counts.delegate_subscriptions,
+              },
+            ];
+          })
+        ),
+        formatMetric(
+          'infernet_subscriptions_processing',
+          'gauge',
+          'Subscription intervals being processed (containers running or tx not yet sent).',
+          this.#chains.map(({ processor }, i) => ({
+            labels: chainLabels[i],
+            value: processor.tracking_counts.processing,
+          }))
+        ),
+        formatMetric(
+          'infernet_pending_txs',
+          'gauge',
+          'Sent delivery txs that are being checked for success.',
+          this.#chains.map(({ processor }, i) => ({
+            labels: chainLabels[i],
+            value: processor.tracking_counts.pending_txs,
+          }))
+        ),
+        formatMetric(
+          'infernet_listener_last_synced_block',
+          'gauge',
+          'Last block synced by the chain listener.',
+          this.#chains.map(({ listener }, i) => ({
+            labels: chainLabels[i],
+            value: listener.last_block,
+          }))
+        ),
+        formatMetric(
+          'infernet_wallet_balance_wei',
+          'gauge',
+          "Node account's native balance, as of the last balance check.",
+          this.#chains.flatMap(({ balance_monitor }, i) => {
+            const { account } = balance_monitor.balances;
+
+            return account
+              ? [
+                  {
+                    labels: { ...chainLabels[i], address: account.address },
+                    value: account.balance,
+                  },
+                ]
+              : [];
+          })
+        ),
+        formatMetric(
+          'infernet_payment_wallet_balance',
+          'gauge',
+          'Payment wallet token balances (in base units), as of the last balance check.',
+          this.#chains.flatMap(({ balance_monitor }, i) => {
+            const { payment_wallet } = balance_monitor.balances;
+
+            return Object.entries(payment_wallet?.tokens ?? {}).map(
+              ([token, { balance }]) => ({
+                labels: { ...chainLabels[i], token },
+                value: balance,
+              })
+            );
+          })
+        ),
+        formatMetric(
+          'infernet_payment_wallet_allowance',
+          'gauge',
+          'Payment wallet token allowances to the Coordinator (in base units), as of the last balance check.',
+          this.#chains.flatMap(({ balance_monitor }, i) => {
+            const { payment_wallet } = balance_monitor.balances;
+
+            return Object.entries(payment_wallet?.tokens ?? {}).map(
+              ([token, { allowance }]) => ({
+                labels: { ...chainLabels[i], token },
+                value: allowance,
+              })
+            );
+          })
+        ),
+        formatMetric(
+          'infernet_balance_low',
+          'gauge',
+          'Whether a monitored balance of the node account or payment wallet is below its alert threshold.',
+          this.#chains.flatMap(({ balance_monitor }, i) => {
+            const { account, payment_wallet } = balance_monitor.balances;
+
+            return [
+              ...(account
+                ? [
+                    {
+                      labels: {
+                        ...chainLabels[i],
+                        wallet: 'account',
+                        token: 'native',
+                      },
+                      value: account.low ? 1 : 0,
+                    },
+                  ]
+                : []),
+              ...Object.entries(payment_wallet?.tokens ?? {}).map(
+                ([token, { low }]) => ({
+                  labels: {
+                    ...chainLabels[i],
+                    wallet: 'payment_wallet',
+                    token,
+                  },
+                  value: low ? 1 : 0,
+                })
+              ),
+            ];
+          })
+        ),
+        formatMetric(
+          'infernet_retry_failures_total',
+          'counter',
+          'Failed attempts of retried operations, by chain, retry policy and error class.',
+          this.#chains.flatMap(({ retry_policies }, i) =>
+            Object.values(retry_policies).flatMap((policy) =>
+              Object.entries(policy.failures).map(([error_class, value]) => ({
+                labels: {
+                  ...chainLabels[i],
+                  policy: policy.name,
+                  class: error_class,
+                },
+                value,
+              }))
+            )
+          )
+        ),
+        formatMetric(
+          'infernet_rpc_request_duration_seconds',
+          'histogram',
+          'JSON-RPC request latency by chain and method.',
+          this.#chains.flatMap(({ rpc }, i) =>
+            Object.entries(rpc.latency).flatMap(([method, histogram]) => {
+              const labels = { ...chainLabels[i], method };
+
+              return [
+                ...RPC_LATENCY_BUCKETS.map((bound, j) => ({
+                  suffix: '_bucket',
+                  labels: { ...labels, le: `${bound}` },
+                  value: histogram.buckets[j],
+                })),
+                {
+                  suffix: '_bucket',
+                  labels: { ...labels, le: '+Inf' },
+                  value: histogram.count,
+                },
+                { suffix: '_sum', labels, value: histogram.sum },
+                { suffix: '_count', labels, value: histogram.count },
+              ];
+            })
+          )
+        )
+      );
+    }
+
+    return `${metrics.join('\n')}\n`;
+  });
+}
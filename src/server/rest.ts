@@ -6,9 +6,15 @@ import { Guardian } from '../orchestration/guardian';
 import { ContainerManager } from '../orchestration/docker';
 import { Orchestrator } from '../orchestration/orchestrator';
 import { ChainProcessor } from '../chain/processor';
-import { DataStore } from '../orchestration/store';
+import { Chain } from '../chain/chain';
+import { PaymentWallet } from '../chain/paymentWallet';
+import { EarningsQuerySchema } from '../chain/earnings';
+import { RPC } from '../chain/rpc';
+import { DataStore, JobEvent, formatOwner } from '../orchestration/store';
 import { AsyncTask } from '../shared/service';
-import { AddressSchema } from '../shared/schemas';
+import { APIKeyScope, ConfigAPIKey } from '../shared/config';
+import { APIKeyAuthenticator } from './auth';
+import { MetricsCollector } from './metrics';
 import {
   MessageType,
   OffchainJobMessage,
@@ -18,19 +24,65 @@ import {
   BaseMessage,
 } from '../shared/message';
 import { GuardianError } from '../shared/message';
-import { Readable } from 'stream';
+import { PassThrough, Readable } from 'stream';
 import { SerializedSubscription } from '../shared/subscription';
+import { JobResult } from '../shared/job';
+import { AddressSchema } from '../shared/schemas';
+import { ZERO_ADDRESS } from '../utils/constants';
 
 const trustedIPs = ['127.0.0.1'];
 
+// Whether a request was sent from a trusted IP. Checks the socket's peer address rather than `request.ip`,
+// which (with `trustProxy`) is taken from the client-controlled X-Forwarded-For header.
+const isTrustedRequest = (request): boolean => {
+  const address: string | undefined = request.socket?.remoteAddress;
+
+  return !!address && trustedIPs.includes(address.replace(/^::ffff:/, ''));
+};
+
+const WithdrawRequestSchema = z
+  .object({
+    token: AddressSchema,
+    // In the token's base units, as a string since amounts can exceed `Number.MAX_SAFE_INTEGER`.
+    amount: z.string().regex(/^[1-9][0-9]*$/),
+    recipient: AddressSchema.optional(),
+  })
+  .strict();
+
+const RevokeRequestSchema = z
+  .object({
+    token: AddressSchema,
+    spender: AddressSchema.optional(),
+  })
+  .strict();
+
+type Authorization =
+  | {
+      // ID of the caller's API key, which owns its jobs. Undefined if API keys are disabled (jobs are owned by IP).
+      owner?: string;
+      api_key?: ConfigAPIKey;
+    }
+  | {
+      code: number;
+      error: string;
+    };
+
+type ChainSelection =
+  | {
+      chain: Chain;
+    }
+  | {
+      code: number;
+      error: string;
+    };
+
 export class RESTServer extends AsyncTask {
   static fieldSchemas = {
     _guardian: z.instanceof(Guardian),
     _manager: z.instanceof(ContainerManager),
     _orchestrator: z.instanceof(Orchestrator),
-    _processor: z.instanceof(ChainProcessor).optional(),
+    _chains: z.instanceof(Chain).array(),
     _store: z.instanceof(DataStore),
-    _chain: z.boolean(),
     _port: z.number(),
     _rate_limit: z
       .object({
@@ -39,7 +91,8 @@ export class RESTServer extends AsyncTask {
       })
       .strict(),
     _version: z.string(),
-    _wallet_address: AddressSchema.optional(),
+    _auth: z.instanceof(APIKeyAuthenticator),
+    _metrics: z.instanceof(MetricsCollector),
     _app: z.custom<FastifyInstance>(),
     _abort_signal_controller: z.custom<AbortController>(),
   };
@@ -55,13 +108,13 @@ export class RESTServer extends AsyncTask {
   #guardian: z.infer<typeof RESTServer.fieldSchemas._guardian>;
   #manager: z.infer<typeof RESTServer.fieldSchemas._manager>;
   #orchestrator: z.infer<typeof RESTServer.fieldSchemas._orchestrator>;
-  #processor: z.infer<typeof RESTServer.fieldSchemas._processor>;
+  #chains: z.infer<typeof RESTServer.fieldSchemas._chains>;
   #store: z.infer<typeof RESTServer.fieldSchemas._store>;
-  #chain: z.infer<typeof RESTServer.fieldSchemas._chain>;
   #port: z.infer<typeof RESTServer.fieldSchemas._port>;
   #rate_limit: z.infer<typeof RESTServer.fieldSchemas._rate_limit>;
   #version: z.infer<typeof RESTServer.fieldSchemas._version>;
-  #wallet_address: z.infer<typeof RESTServer.fieldSchemas._wallet_address>;
+  #auth: z.infer<typeof RESTServer.fieldSchemas._auth>;
+  #metrics: z.infer<typeof RESTServer.fieldSchemas._metrics>;
   #app: z.infer<typeof RESTServer.fieldSchemas._app>;
   #abort_signal_controller: z.infer<
     typeof RESTServer.fieldSchemas._abort_signal_controller
@@ -71,12 +124,11 @@ export class RESTServer extends AsyncTask {
     guardian,
     manager,
     orchestrator,
-    processor,
+    chains,
     store,
-    config_chain,
     config_server,
     version,
-    wallet_address
+    metrics
   ) {
     super();
 
@@ -84,16 +136,17 @@ export class RESTServer extends AsyncTask {
     this.#manager = RESTServer.fieldSchemas._manager.parse(manager);
     this.#orchestrator =
       RESTServer.fieldSchemas._orchestrator.parse(orchestrator);
-    this.#processor = RESTServer.fieldSchemas._processor.parse(processor);
+    this.#chains = RESTServer.fieldSchemas._chains.parse(chains);
     this.#store = RESTServer.fieldSchemas._store.parse(store);
-    this.#chain = RESTServer.fieldSchemas._chain.parse(config_chain.enabled);
     this.#port = RESTServer.fieldSchemas._port.parse(config_server.port);
     this.#rate_limit = RESTServer.fieldSchemas._rate_limit.parse(
       config_server.rate_limit
     );
     this.#version = RESTServer.fieldSchemas._version.parse(version);
-    this.#wallet_address =
-      RESTServer.fieldSchemas._wallet_address.parse(wallet_address);
+    this.#auth = RESTServer.fieldSchemas._auth.parse(
+      new APIKeyAuthenticator(config_server.api_keys)
+    );
+    this.#metrics = RESTServer.fieldSchemas._metrics.parse(metrics);
     this.#app = RESTServer.fieldSchemas._app.parse(
       fastify(
         process.env.NODE_ENV !== 'production'
@@ -142,17 +195,38 @@ export class RESTServer extends AsyncTask {
       response.code(200).send({ status: 'healthy' })
     );
 
-    // Returns running container information and pending job counts.
-    this.#app.get('/info', async (_, response) =>
-      response.code(200).send({
+    // Returns running container information, pending job counts, and the chains served by the node.
+    this.#app.get('/info', async (_, response) => {
+      const chainPending = this.#store.get_chain_pending_counters();
+
+      return response.code(200).send({
         version: this.#version,
         containers: await this.#manager.running_container_info(),
         pending: await this.#store.get_pending_counters(),
         chain: {
-          enabled: this.#chain,
-          address: this.#wallet_address ?? '',
+          enabled: this.#chains.length > 0,
+          // Address of the first chain's wallet, kept for single-chain clients.
+          address: this.#chains[0]?.wallet.address ?? '',
+          chains: this.#chains.map(
+            ({ name, chain_id, wallet, rpc, balance_monitor }) => ({
+              name,
+              chain_id,
+              address: wallet.address,
+              pending: chainPending[chain_id] ?? 0,
+              rpc: rpc.health,
+              balances: balance_monitor.balances,
+            })
+          ),
         },
-      })
+      });
+    });
+
+    // Returns node metrics in the Prometheus text exposition format.
+    this.#app.get('/metrics', async (_, response) =>
+      response
+        .code(200)
+        .header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+        .send(await this.#metrics.collect())
     );
 
     // Returns resources for a specific model ID (if provided), or full container resources.
@@ -164,6 +238,84 @@ export class RESTServer extends AsyncTask {
         .send(await this.#orchestrator.collect_service_resources(model_id));
     });
 
+    // Authenticates the request's API key (if API keys are configured), and checks it has been granted `scope`.
+    const authorize = (request, scope: APIKeyScope): Authorization => {
+      if (!this.#auth.enabled) return {};
+
+      const apiKey = this.#auth.authenticate(request.headers);
+
+      if (!apiKey) return { code: 401, error: 'Invalid or missing API key' };
+
+      if (!this.#auth.has_scope(apiKey, scope)) {
+        console.warn('Unauthorized API key scope', {
+          endpoint: request.url,
+          method: request.method,
+          name: apiKey.name,
+          scope,
+        });
+
+        return { code: 403, error: `API key is missing scope: ${scope}` };
+      }
+
+      return { owner: this.#auth.id(apiKey), api_key: apiKey };
+    };
+
+    // Admin routes require an API key with the `admin` scope. If API keys are disabled, they are only
+    // reachable from trusted IPs, except for routes that move funds (`requires_api_key`), which are refused.
+    const authorizeAdmin = (
+      request,
+      requires_api_key: boolean = false
+    ): Authorization => {
+      if (this.#auth.enabled) return authorize(request, 'admin');
+
+      if (requires_api_key) {
+        console.warn('Refused admin request requiring an API key', {
+          endpoint: request.url,
+          method: request.method,
+        });
+
+        return {
+          code: 403,
+          error: 'API keys must be enabled to use this endpoint',
+        };
+      }
+
+      if (!isTrustedRequest(request)) {
+        console.warn('Unauthorized attempt to access admin API', {
+          remote_addr: request.socket?.remoteAddress,
+          endpoint: request.url,
+        });
+
+        return { code: 403, error: 'Unauthorized' };
+      }
+
+      return {};
+    };
+
+    // Resolves a chain by name. The name can be omitted if the node serves a single chain.
+    const selectChain = (name?: string): ChainSelection => {
+      if (!this.#chains.length)
+        return { code: 400, error: 'Chain not enabled' };
+
+      if (name === undefined) {
+        if (this.#chains.length > 1)
+          return {
+            code: 400,
+            error: `Chain must be specified, one of: ${this.#chains
+              .map((chain) => chain.name)
+              .join(', ')}`,
+          };
+
+        return { chain: this.#chains[0] };
+      }
+
+      const chain = this.#chains.find((chain) => chain.name === name);
+
+      if (!chain) return { code: 404, error: `Unknown chain: ${name}` };
+
+      return { chain };
+    };
+
     // Filter and preprocess incoming off-chain messages.
     const filterCreateJob = (request, response, handler) => {
       try {
@@ -174,6 +326,13 @@ export class RESTServer extends AsyncTask {
             .code(400)
             .send({ error: 'Could not get client IP address' });
 
+        const authorization = authorize(request, 'jobs:create');
+
+        if ('error' in authorization)
+          return response
+            .code(authorization.code)
+            .send({ error: authorization.error });
+
         const jobId = uuidv4();
 
         console.debug('Received new off-chain raw message', {
@@ -181,11 +340,26 @@ export class RESTServer extends AsyncTask {
           job_id: jobId,
         });
 
+        // Server-assigned fields are set last, so that they cannot be overridden by the request body.
         const parsed = OffchainJobMessageSchema.parse({
+          ...data,
           ip,
           id: jobId,
-          ...data,
+          owner: authorization.owner,
         });
+
+        if (
+          authorization.api_key &&
+          !this.#auth.allows_containers(
+            authorization.api_key,
+            parsed.containers
+          )
+        )
+          return response.code(403).send({
+            error: 'Containers not allowed for API key',
+            params: { containers: parsed.containers },
+          });
+
         const filtered = this.#guardian.process_message(parsed);
 
         if (filtered instanceof GuardianError) {
@@ -231,9 +405,11 @@ export class RESTServer extends AsyncTask {
               id: `${message.id}`,
             });
 
-            if (!this.#processor) throw new Error('Chain not enabled');
+            const selection = selectChain(message.chain);
 
-            this.#processor.track(message);
+            if ('error' in selection) throw new Error(selection.error);
+
+            selection.chain.processor.track(message);
           }
 
           console.debug('Processed REST response', {
@@ -304,6 +480,13 @@ export class RESTServer extends AsyncTask {
           .code(400)
           .send({ error: 'Could not get client IP address' });
 
+      const authorization = authorize(request, 'jobs:create');
+
+      if ('error' in authorization)
+        return response
+          .code(authorization.code)
+          .send({ error: authorization.error });
+
       console.debug('Received new off-chain raw message batch', { msg: data });
 
       if (!Array.isArray(data))
@@ -322,10 +505,12 @@ export class RESTServer extends AsyncTask {
         )[] = [];
 
         for (let i = 0; i < data.length; i++) {
+          // Server-assigned fields are set last, so that they cannot be overridden by the request body.
           const parsed = {
+            ...data[i],
             id: uuidv4(),
             ip,
-            ...data[i],
+            owner: authorization.owner,
           };
 
           if (parsed.type === MessageType.DelegatedSubscription) {
@@ -358,7 +543,51 @@ export class RESTServer extends AsyncTask {
           // Filter out non-offchain messages.
           if (!isOffchainMessage) continue;
 
-          const processedResults = this.#guardian.process_message(parsed);
+          const { api_key: apiKey } = authorization;
+
+          if (apiKey) {
+            if (
+              parsed.type === MessageType.DelegatedSubscription &&
+              !this.#auth.has_scope(apiKey, 'subscriptions:create')
+            ) {
+              results.push({
+                error: 'API key is missing scope: subscriptions:create',
+              });
+
+              continue;
+            }
+
+            if (
+              parsed.type === MessageType.OffchainJob &&
+              !this.#auth.allows_containers(apiKey, parsed.containers)
+            ) {
+              results.push({
+                error: 'Containers not allowed for API key',
+                params: { containers: parsed.containers },
+              });
+
+              continue;
+            }
+          }
+
+          // Delegated subscriptions are checked against the chain they are delivered on.
+          let chain: Chain | undefined;
+
+          if (parsed.type === MessageType.DelegatedSubscription) {
+            const selection = selectChain(parsed.chain);
+
+            if ('error' in selection) {
+              results.push({ error: selection.error });
+
+              continue;
+            }
+
+            chain = selection.chain;
+          }
+
+          const processedResults = (
+            chain?.guardian ?? this.#guardian
+          ).process_message(parsed);
 
           if (processedResults instanceof GuardianError) {
             results.push({
@@ -376,9 +605,7 @@ export class RESTServer extends AsyncTask {
           } else if (
             processedResults.type === MessageType.DelegatedSubscription
           ) {
-            if (!this.#processor) throw new Error('Chain not enabled');
-
-            this.#processor.track(processedResults);
+            chain?.processor.track(processedResults);
 
             results.push({});
           } else {
@@ -428,11 +655,20 @@ export class RESTServer extends AsyncTask {
           .code(400)
           .send({ error: 'Could not get client IP address' });
 
+      const authorization = authorize(request, 'jobs:read');
+
+      if ('error' in authorization)
+        return response
+          .code(authorization.code)
+          .send({ error: authorization.error });
+
+      const { owner } = authorization;
+
       if (!id.length) {
         // If `pending` is undefined, will fetch all job IDs.
         return response
           .code(200)
-          .send(await this.#store.get_job_ids(ip, pending));
+          .send(await this.#store.get_job_ids(formatOwner(ip, owner), pending));
       } else {
         return response.code(200).send(
           await this.#store.get(
@@ -441,6 +677,7 @@ export class RESTServer extends AsyncTask {
                 ({
                   id,
                   ip,
+                  owner,
                 } as BaseMessage)
             ),
             intermediate
@@ -449,6 +686,393 @@ export class RESTServer extends AsyncTask {
       }
     });
 
+    // Streams the caller's job status transitions as Server-Sent Events, optionally filtered by job IDs.
+    this.#app.get('/api/jobs/events', (request, response) => {
+      const { query, ip, url, method } = request as {
+        query: {
+          id: string | undefined;
+          intermediate: string | undefined;
+        };
+        ip: string;
+        url: string;
+        method: string;
+      };
+      const ids = query.id ? query.id.split(',') : [];
+      const intermediate = query.intermediate === 'true';
+
+      if (!ip)
+        return response
+          .code(400)
+          .send({ error: 'Could not get client IP address' });
+
+      const authorization = authorize(request, 'jobs:read');
+
+      if ('error' in authorization)
+        return response
+          .code(authorization.code)
+          .send({ error: authorization.error });
+
+      const owner = formatOwner(ip, authorization.owner);
+      const stream = new PassThrough();
+
+      const onJobEvent = ({ owner: jobOwner, job }: JobEvent) => {
+        // Only forward events for the caller's jobs.
+        if (jobOwner !== owner || (ids.length && !ids.includes(job.id))) return;
+
+        // Copy before omitting fields, since the event payload is shared between listeners.
+        const data = intermediate
+          ? job
+          : { ...job, intermediate_results: undefined };
+
+        stream.write(`event: ${job.status}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Comment lines keep idle connections from being closed by proxies.
+      const keepAlive = setInterval(
+        () => stream.write(': keep-alive\n\n'),
+        15_000
+      );
+
+      this.#store.events.on('job', onJobEvent);
+
+      // Flush headers to the client right away, rather than on the first event.
+      stream.write(': connected\n\n');
+
+      // Clean up once the client disconnects.
+      response.raw.on('close', () => {
+        clearInterval(keepAlive);
+
+        this.#store.events.off('job', onJobEvent);
+
+        stream.end();
+      });
+
+      console.debug('Opened job event stream', {
+        endpoint: url,
+        method,
+        ids,
+      });
+
+      return response
+        .code(200)
+        .header('Content-Type', 'text/event-stream')
+        .header('Cache-Control', 'no-cache')
+        .header('Connection', 'keep-alive')
+        .send(stream);
+    });
+
+    // Cancels a running (or not yet started) off-chain job.
+    this.#app.delete('/api/jobs/:id', async (request, response) => {
+      const { params, ip, url, method } = request as {
+        params: { id: string };
+        ip: string;
+        url: string;
+        method: string;
+      };
+
+      if (!ip)
+        return response
+          .code(400)
+          .send({ error: 'Could not get client IP address' });
+
+      const authorization = authorize(request, 'jobs:cancel');
+
+      if ('error' in authorization)
+        return response
+          .code(authorization.code)
+          .send({ error: authorization.error });
+
+      try {
+        // Only allow clients to cancel their own jobs.
+        const message = {
+          id: params.id,
+          ip,
+          owner: authorization.owner,
+        } as BaseMessage;
+
+        if (!(await this.#orchestrator.cancel_job(message))) {
+          const [job]: JobResult[] = await this.#store.get([message], false);
+
+          if (!job) return response.code(404).send({ error: 'Job not found' });
+
+          return response.code(409).send({
+            error:
+              job.status === 'running'
+                ? 'Job cannot be cancelled'
+                : `Job has already ended: ${job.status}`,
+          });
+        }
+
+        console.debug('Processed REST response', {
+          endpoint: url,
+          method,
+          status: 200,
+          id: message.id,
+        });
+
+        return response.code(200).send({ id: message.id });
+      } catch (err) {
+        console.error('Processed REST response', {
+          endpoint: url,
+          method,
+          status: 500,
+          err: `${err}`,
+        });
+
+        return response
+          .code(500)
+          .send({ error: `Could not cancel job: ${err}` });
+      }
+    });
+
+    // Runs an admin request against the chain named by the `chain` query param (which can be omitted if
+    // the node serves a single chain), after authorizing it.
+    const withChain = (
+      request,
+      response,
+      handler,
+      requires_api_key: boolean = false
+    ) => {
+      const authorization = authorizeAdmin(request, requires_api_key);
+
+      if ('error' in authorization)
+        return response
+          .code(authorization.code)
+          .send({ error: authorization.error });
+
+      const selection = selectChain(
+        (request.query as { chain: string | undefined }).chain
+      );
+
+      if ('error' in selection)
+        return response.code(selection.code).send({ error: selection.error });
+
+      return handler(selection.chain);
+    };
+
+    const withProcessor = (request, response, handler) =>
+      withChain(request, response, (chain: Chain) => handler(chain.processor));
+
+    // Runs an admin request against the chain's payment wallet, if it has one configured. Requests that move
+    // funds (`requires_api_key`) are only authorized with an API key.
+    const withPaymentWallet = (
+      request,
+      response,
+      handler,
+      requires_api_key: boolean = false
+    ) =>
+      withChain(
+        request,
+        response,
+        (chain: Chain) => {
+          if (!chain.payment_wallet.configured)
+            return response
+              .code(400)
+              .send({ error: 'Payment wallet not configured' });
+
+          return handler(chain.payment_wallet, chain);
+        },
+        requires_api_key
+      );
+
+    // Returns all subscriptions tracked by the chain processor.
+    this.#app.get('/admin/subscriptions', (request, response) =>
+      withProcessor(request, response, (processor: ChainProcessor) =>
+        response.code(200).send(processor.get_tracked_subscriptions())
+      )
+    );
+
+    // Returns a tracked subscription, by ID or (for delegate subscriptions) `${owner}-${nonce}`.
+    this.#app.get('/admin/subscriptions/:id', (request, response) =>
+      withProcessor(request, response, (processor: ChainProcessor) => {
+        const { id } = request.params as { id: string };
+        const subscription = processor.get_tracked_subscription(id);
+
+        if (!subscription)
+          return response.code(404).send({ error: 'Subscription not tracked' });
+
+        return response.code(200).send(subscription);
+      })
+    );
+
+    // Stops tracking a subscription.
+    this.#app.delete('/admin/subscriptions/:id', (request, response) =>
+      withProcessor(request, response, async (processor: ChainProcessor) => {
+        const { id } = request.params as { id: string };
+
+        if (!(await processor.untrack_subscription(id)))
+          return response.code(404).send({ error: 'Subscription not tracked' });
+
+        return response.code(200).send({ id });
+      })
+    );
+
+    // Clears a subscription's pending tx and attempts for its current interval, so that it is re-processed.
+    this.#app.post('/admin/subscriptions/:id/retry', (request, response) =>
+      withProcessor(request, response, async (processor: ChainProcessor) => {
+        const { id } = request.params as { id: string };
+
+        switch (await processor.retry_subscription(id)) {
+          case 'not_found':
+            return response
+              .code(404)
+              .send({ error: 'Subscription not tracked' });
+          case 'processing':
+            return response
+              .code(409)
+              .send({ error: 'Subscription interval is being processed' });
+          case 'inactive':
+            return response
+              .code(409)
+              .send({ error: 'Subscription is not active' });
+          default:
+            return response.code(200).send({ id });
+        }
+      })
+    );
+
+    // Returns the payment wallet's balances of the tokens listed by the comma-separated `tokens` query
+    // param (the native token by default), along with the Coordinator's allowances.
+    this.#app.get('/admin/payment-wallet', (request, response) =>
+      withPaymentWallet(
+        request,
+        response,
+        async (payment_wallet: PaymentWallet, chain: Chain) => {
+          const { tokens = ZERO_ADDRESS } = request.query as {
+            tokens?: string;
+          };
+          const parsed = AddressSchema.array().safeParse(tokens.split(','));
+
+          if (!parsed.success)
+            return response.code(400).send({ error: 'Invalid token address' });
+
+          try {
+            const balances = {};
+
+            for (const token of parsed.data)
+              balances[RPC.get_checksum_address(token)] =
+                await payment_wallet.get_token_balance(
+                  token,
+                  chain.registry.coordinator
+                );
+
+            return response.code(200).send({
+              chain: chain.name,
+              address: payment_wallet.address,
+              owner: await payment_wallet.get_owner(),
+              tokens: balances,
+            });
+          } catch (err) {
+            return response
+              .code(500)
+              .send({ error: `Could not get balances: ${err}` });
+          }
+        }
+      )
+    );
+
+    // Withdraws an unlocked amount of a token (in base units) from the payment wallet, optionally forwarding
+    // it to `recipient` instead of leaving it with the node's account.
+    this.#app.post('/admin/payment-wallet/withdraw', (request, response) =>
+      withPaymentWallet(
+        request,
+        response,
+        async (payment_wallet: PaymentWallet, chain: Chain) => {
+          const parsed = WithdrawRequestSchema.safeParse(request.body);
+
+          if (!parsed.success)
+            return response
+              .code(400)
+              .send({ error: `Invalid request: ${parsed.error.message}` });
+
+          const { token, amount, recipient } = parsed.data;
+
+          try {
+            return response
+              .code(200)
+              .send(
+                await payment_wallet.withdraw(token, BigInt(amount), recipient)
+              );
+          } catch (err) {
+            console.error('Failed to withdraw from payment wallet', {
+              chain: chain.name,
+              token,
+              amount,
+              err: `${err}`,
+            });
+
+            return response
+              .code(500)
+              .send({ error: `Could not withdraw: ${err}` });
+          }
+        },
+        true
+      )
+    );
+
+    // Revokes a spender's (the Coordinator by default) allowance of a token.
+    this.#app.post('/admin/payment-wallet/revoke', (request, response) =>
+      withPaymentWallet(
+        request,
+        response,
+        async (payment_wallet: PaymentWallet, chain: Chain) => {
+          const parsed = RevokeRequestSchema.safeParse(request.body);
+
+          if (!parsed.success)
+            return response
+              .code(400)
+              .send({ error: `Invalid request: ${parsed.error.message}` });
+
+          const { token, spender = chain.registry.coordinator } = parsed.data;
+
+          try {
+            await payment_wallet.revoke(spender, token);
+
+            return response.code(200).send({ token, spender });
+          } catch (err) {
+            console.error('Failed to revoke payment wallet allowance', {
+              chain: chain.name,
+              token,
+              spender,
+              err: `${err}`,
+            });
+
+            return response
+              .code(500)
+              .send({ error: `Could not revoke allowance: ${err}` });
+          }
+        },
+        true
+      )
+    );
+
+    // Returns delivery earnings confirmed between the `from` and `to` (unix timestamps) query params, summed
+    // by token, and by container pipeline or period (`hour`, `day`, `week` or `month`) per `group_by`.
+    this.#app.get('/admin/earnings', (request, response) =>
+      withChain(request, response, async (chain: Chain) => {
+        const { chain: _, ...query } = request.query as {
+          [key: string]: string;
+        };
+        const parsed = EarningsQuerySchema.safeParse(query);
+
+        if (!parsed.success)
+          return response
+            .code(400)
+            .send({ error: `Invalid query: ${parsed.error.message}` });
+
+        try {
+          return response.code(200).send({
+            chain: chain.name,
+            ...(await chain.earnings.aggregate(parsed.data)),
+          });
+        } catch (err) {
+          return response
+            .code(500)
+            .send({ error: `Could not get earnings: ${err}` });
+        }
+      })
+    );
+
     // Stores job status in data store
     this.#app.put('/api/status', async (request, response) => {
       const { ip, body, url, method }: any = request;
@@ -458,27 +1082,36 @@ export class RESTServer extends AsyncTask {
           .code(400)
           .send({ error: 'Could not get client IP address' });
 
-      if (!trustedIPs.includes(ip)) {
+      if (!isTrustedRequest(request)) {
         console.warn('Unauthorized attempt to store job status', {
-          remote_addr: ip,
+          remote_addr: request.socket?.remoteAddress,
         });
 
         return response.code(403).send({ error: 'Unauthorized' });
       }
 
+      // If API keys are enabled, jobs are owned by the caller's key.
+      const authorization = authorize(request, 'jobs:create');
+
+      if ('error' in authorization)
+        return response
+          .code(authorization.code)
+          .send({ error: authorization.error });
+
       try {
         console.debug('Received new result', { result: body });
 
         const parsed: OffchainMessage = OffchainMessageSchema.parse({
           id: body.id,
           ip,
+          owner: authorization.owner,
           containers: body.containers,
           data: {},
         });
 
         switch (body.status) {
           case 'success':
-            await this.#store.set_success(parsed, []);
+            await this.#store.set_success(parsed, [], undefined);
 
             body.containers.forEach((container) =>
               this.#store.track_container_status(container, 'success')
@@ -486,7 +1119,7 @@ export class RESTServer extends AsyncTask {
 
             break;
           case 'failed':
-            await this.#store.set_failed(parsed, []);
+            await this.#store.set_failed(parsed, [], undefined);
 
             body.containers.forEach((container) =>
               this.#store.track_container_status(container, 'failed')
@@ -494,7 +1127,7 @@ export class RESTServer extends AsyncTask {
 
             break;
           case 'running':
-            await this.#store.set_running(parsed);
+            await this.#store.set_running(parsed, undefined);
 
             break;
           default:
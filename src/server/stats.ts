@@ -0,0 +1,135 @@
+// Reference: https://github.com/ritual-net/infernet-node/blob/ee2ab486382eaf6786871d2df0f012ea5f303683/src/server/stats.py.
+import { z } from 'zod';
+import { DataStore } from '../orchestration/store';
+import { Chain } from '../chain/chain';
+import { AsyncTask } from '../shared/service';
+import { InfernetContainerSchema } from '../shared/config';
+import { delay, getUnixTimestamp } from '../utils/helpers';
+
+const ContainerInfoSchema = z
+  .object({
+    id: z.string(),
+    image: z.string(),
+    description: z.string(),
+    external: z.boolean(),
+    gpu: z.boolean(),
+    generates_proofs: z.boolean(),
+  })
+  .strict();
+
+export class StatSender extends AsyncTask {
+  static fieldSchemas = {
+    _url: z.string().url(),
+    _interval: z.number().positive(),
+    _timeout: z.number().positive(),
+    _store: z.instanceof(DataStore),
+    _version: z.string(),
+    _containers: ContainerInfoSchema.array(),
+    _chains: z.instanceof(Chain).array(),
+  };
+
+  static methodSchemas = {
+    setup: z.function().returns(z.promise(z.void())),
+    _send_stats: z.function().returns(z.promise(z.void())),
+    run_forever: z.function().returns(z.promise(z.void())),
+    cleanup: z.function().returns(z.void()),
+  };
+
+  #url: z.infer<typeof StatSender.fieldSchemas._url>;
+  #interval: z.infer<typeof StatSender.fieldSchemas._interval>;
+  #timeout: z.infer<typeof StatSender.fieldSchemas._timeout>;
+  #store: z.infer<typeof StatSender.fieldSchemas._store>;
+  #version: z.infer<typeof StatSender.fieldSchemas._version>;
+  #containers: z.infer<typeof StatSender.fieldSchemas._containers>;
+  #chains: z.infer<typeof StatSender.fieldSchemas._chains>;
+
+  constructor(config_stats, store, version, containers, chains) {
+    super();
+
+    this.#url = StatSender.fieldSchemas._url.parse(config_stats.url);
+    this.#interval = StatSender.fieldSchemas._interval.parse(
+      config_stats.interval
+    );
+    this.#timeout = StatSender.fieldSchemas._timeout.parse(
+      config_stats.timeout
+    );
+    this.#store = StatSender.fieldSchemas._store.parse(store);
+    this.#version = StatSender.fieldSchemas._version.parse(version);
+    // Only forward public container details, i.e. never env vars, bearer tokens, etc.
+    this.#containers = StatSender.fieldSchemas._containers.parse(
+      InfernetContainerSchema.array()
+        .parse(containers)
+        .map(({ id, image, description, external, gpu, generates_proofs }) => ({
+          id,
+          image,
+          description,
+          external,
+          gpu,
+          generates_proofs,
+        }))
+    );
+    this.#chains = StatSender.fieldSchemas._chains.parse(chains);
+
+    console.debug('Initialized StatSender', {
+      url: this.#url,
+      interval: this.#interval,
+    });
+  }
+
+  setup = StatSender.methodSchemas.setup.implement(async () => {});
+
+  // Pops job, container and chain job counters, and sends them to the stats sink along with node info.
+  // Counters are dropped if the request fails, so each payload only covers its own interval.
+  #send_stats = StatSender.methodSchemas._send_stats.implement(async () => {
+    const jobs = this.#store.counters.pop_job_counters();
+    const containerJobs = { ...this.#store.counters.pop_container_counters() };
+    const chainJobs = { ...this.#store.counters.pop_chain_job_counters() };
+    const body = JSON.stringify({
+      timestamp: getUnixTimestamp(),
+      version: this.#version,
+      chains: this.#chains.map(({ name, chain_id, wallet }) => ({
+        name,
+        chain_id,
+        address: wallet.address,
+      })),
+      containers: this.#containers,
+      jobs,
+      container_jobs: containerJobs,
+      // On-chain job counts, keyed by chain ID.
+      chain_jobs: chainJobs,
+    });
+
+    try {
+      const response = await fetch(this.#url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(this.#timeout),
+      });
+
+      if (!response.ok)
+        throw new Error(`Stats sink responded with status ${response.status}`);
+
+      console.debug('Forwarded node stats', { jobs });
+    } catch (err) {
+      console.warn('Failed to forward node stats', {
+        url: this.#url,
+        err: `${err}`,
+      });
+    }
+  });
+
+  run_forever = StatSender.methodSchemas.run_forever.implement(async () => {
+    console.info('Forwarding node stats', { url: this.#url });
+
+    while (!this.shutdown) {
+      await delay(this.#interval);
+
+      if (this.shutdown) break;
+
+      await this.#send_stats();
+    }
+  });
+
+  cleanup = StatSender.methodSchemas.cleanup.implement(() => {});
+}
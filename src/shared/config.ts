@@ -1,7 +1,7 @@
 // Reference: https://github.com/ritual-net/infernet-node/blob/073594fc5edafc9e78b8286b943565bd6d5b25c5/src/shared/config.py.
 import fs from 'fs';
 import { z } from 'zod';
-import { AddressSchema } from './schemas';
+import { AddressSchema, TokenAmountSchema } from './schemas';
 
 export const ConfigRateLimitSchema = z
   .object({
@@ -10,10 +10,83 @@ export const ConfigRateLimitSchema = z
   })
   .strict();
 
+export const APIKeyScopeSchema = z.enum([
+  'jobs:create',
+  'jobs:read',
+  'jobs:cancel',
+  'subscriptions:create',
+  'admin',
+]);
+
+export const ConfigAPIKeySchema = z
+  .object({
+    // Identifies the key in logs, so it must be unique.
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/),
+    key: z.string().min(16),
+    // Containers the key may run jobs on. An empty list allows all containers.
+    containers: z.string().array().default([]),
+    // Keys are granted every scope except `admin` unless scopes are listed explicitly.
+    scopes: APIKeyScopeSchema.array().default(
+      APIKeyScopeSchema.options.filter((scope) => scope !== 'admin')
+    ),
+  })
+  .strict();
+
 export const ConfigServerSchema = z
   .object({
     port: z.number().default(4000),
     rate_limit: ConfigRateLimitSchema.default(ConfigRateLimitSchema.parse({})),
+    api_keys: ConfigAPIKeySchema.array()
+      .default([])
+      .refine(
+        (api_keys) =>
+          new Set(api_keys.map(({ name }) => name)).size === api_keys.length,
+        { message: 'API key names must be unique' }
+      ),
+  })
+  .strict();
+
+// Fees are in gwei, and timeouts in milliseconds.
+export const ConfigGasSchema = z
+  .object({
+    // Cap on the max fee per gas of delivery txs, including replacements. Uncapped if unset.
+    max_fee_per_gas: z.number().positive().optional(),
+    // Fixed max priority fee per gas. If unset, it is estimated from recent blocks' priority fees.
+    max_priority_fee_per_gas: z.number().nonnegative().optional(),
+    // Percentile of recent blocks' priority fees to estimate the priority fee from.
+    priority_fee_percentile: z.number().min(0).max(100).default(50),
+    // Number of recent blocks to estimate the priority fee from.
+    fee_history_blocks: z.number().int().positive().default(10),
+    // Multiplier of the next block's base fee, to keep txs includable if the base fee rises.
+    base_fee_multiplier: z.number().min(1).default(2),
+    // Delivery txs that are not mined within this time are replaced with bumped fees, using the same nonce.
+    replacement_timeout: z.number().positive().default(60_000),
+    // Percentage that fees are bumped by on replacement. Most clients require at least 10%.
+    replacement_fee_bump: z.number().min(10).default(12.5),
+    max_replacements: z.number().int().nonnegative().default(3),
+  })
+  .strict();
+
+// Encrypted JSON keystore (Web3 Secret Storage v3), whose password is read from an env var or a file.
+export const ConfigKeystoreSchema = z
+  .object({
+    path: z.string(),
+    password_env: z.string().optional(),
+    password_file: z.string().optional(),
+  })
+  .strict()
+  .refine(
+    ({ password_env, password_file }) => !password_env !== !password_file,
+    { message: 'Exactly one of password_env or password_file must be defined' }
+  );
+
+// Remote signer serving `eth_signTransaction`, `eth_signTypedData_v4` and `personal_sign` over JSON-RPC.
+export const ConfigRemoteSignerSchema = z
+  .object({
+    url: z.string().url(),
+    // Address of the account that the remote signer signs for.
+    address: AddressSchema,
+    timeout: z.number().positive().default(10_000),
   })
   .strict();
 
@@ -21,8 +94,138 @@ export const ConfigWalletSchema = z
   .object({
     max_gas_limit: z.number().default(5000000),
     private_key: z.string().optional(),
+    // Alternative to `private_key`, to keep it out of the config in plaintext.
+    keystore: ConfigKeystoreSchema.optional(),
+    // Alternative to `private_key`, to keep the key in a separate process.
+    remote_signer: ConfigRemoteSignerSchema.optional(),
     payment_address: AddressSchema.optional(),
     allowed_sim_errors: z.string().array().default([]),
+    gas: ConfigGasSchema.default(ConfigGasSchema.parse({})),
+  })
+  .strict()
+  .refine(
+    ({ private_key, keystore, remote_signer }) =>
+      [private_key, keystore, remote_signer].filter(Boolean).length <= 1,
+    {
+      message:
+        'Only one of private_key, keystore or remote_signer can be defined',
+    }
+  );
+
+export const ConfigProfitabilitySchema = z
+  .object({
+    enabled: z.boolean().default(false),
+    // Minimum payout over the estimated delivery cost, as a percentage of the cost.
+    min_margin: z.number().nonnegative().default(0),
+    // Price of one payment token base unit in wei, as a decimal string, by token address. Payments in the
+    // native token (zero address) are priced at 1. Subscriptions paying in unpriced tokens are not checked.
+    token_prices: z.record(z.string().regex(/^\d+(\.\d+)?$/)).default({}),
+    // How long (ms) unprofitable subscriptions are deferred before being checked again.
+    defer_period: z.number().positive().default(60_000),
+  })
+  .strict();
+
+export const ConfigSchedulerSchema = z
+  .object({
+    // Maximum subscription intervals processed at once (containers running or delivery tx being sent).
+    max_concurrent: z.number().int().positive().default(8),
+    // How often (ms) sent txs are checked for confirmation without a WebSocket RPC URL to wake on new heads.
+    poll_period: z.number().positive().default(1_000),
+  })
+  .strict();
+
+export const ConfigBalanceMonitorSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    interval: z.number().positive().default(60_000),
+    // Alert when the node account's balance (in ether, as a decimal string) drops below this.
+    min_balance: z
+      .string()
+      .regex(/^\d+(\.\d+)?$/)
+      .optional(),
+    // Payment wallet tokens to monitor (zero address for the native token), with the balance (in base units)
+    // to alert below. Their allowances to the Coordinator are monitored too.
+    payment_wallet_tokens: z.record(z.string().regex(/^\d+$/)).default({}),
+    // Alerts are always logged, and also POSTed here if set (signed like job webhooks if `alert_secret` is set).
+    alert_url: z.string().url().optional(),
+    alert_secret: z.string().optional(),
+  })
+  .strict();
+
+// Why an attempt failed. `not_found` means a tx has no receipt (yet).
+export const RetryErrorClassSchema = z.enum([
+  'revert',
+  'not_found',
+  'nonce',
+  'insufficient_funds',
+  'timeout',
+  'network',
+  'unknown',
+]);
+
+// Builds a retry policy schema, with defaults that differ per policy.
+const retryPolicySchema = ({
+  max_attempts,
+  delay,
+  retry_on,
+}: {
+  max_attempts: number;
+  delay: number;
+  retry_on: z.infer<typeof RetryErrorClassSchema>[];
+}) =>
+  z
+    .object({
+      // Including the first attempt.
+      max_attempts: z.number().int().positive().default(max_attempts),
+      // Delay (ms) before the second attempt, multiplied by `backoff` for each further attempt.
+      delay: z.number().nonnegative().default(delay),
+      backoff: z.number().min(1).default(1),
+      max_delay: z.number().nonnegative().optional(),
+      // Randomizes delays by up to this fraction, so that retries of concurrent failures are spread out.
+      jitter: z.number().min(0).max(1).default(0),
+      // Failures of other classes are not retried.
+      retry_on: RetryErrorClassSchema.array().default(retry_on),
+    })
+    .strict();
+
+export const ConfigRetryPolicySchema = retryPolicySchema({
+  max_attempts: 1,
+  delay: 0,
+  retry_on: [],
+});
+
+const ConfigDeliveryRetrySchema = retryPolicySchema({
+  max_attempts: 3,
+  delay: 0,
+  retry_on: ['revert'],
+});
+
+const ConfigSimulationRetrySchema = retryPolicySchema({
+  max_attempts: 4,
+  delay: 500,
+  retry_on: ['revert', 'timeout', 'network'],
+});
+
+const ConfigReceiptRetrySchema = retryPolicySchema({
+  max_attempts: 10,
+  delay: 200,
+  retry_on: RetryErrorClassSchema.options,
+});
+
+export const ConfigRetrySchema = z
+  .object({
+    // Delivery txs of a subscription interval. Subscriptions are no longer tracked once exhausted.
+    delivery: ConfigDeliveryRetrySchema.default(
+      ConfigDeliveryRetrySchema.parse({})
+    ),
+    // Delivery tx simulations.
+    simulation: ConfigSimulationRetrySchema.default(
+      ConfigSimulationRetrySchema.parse({})
+    ),
+    // Polling for a successful delivery tx receipt.
+    receipt: ConfigReceiptRetrySchema.default(
+      ConfigReceiptRetrySchema.parse({})
+    ),
   })
   .strict();
 
@@ -32,23 +235,57 @@ export const ConfigSnapshotSyncSchema = z
     batch_size: z.number().default(500),
     starting_sub_id: z.number().default(0),
     sync_period: z.number().default(0.5),
+    // Ignore the persisted listener checkpoint and snapshot sync from `starting_sub_id`, e.g. after
+    // adding containers that existing subscriptions may request.
+    force_resync: z.boolean().default(false),
   })
   .strict();
 
+// Name of the chain when `chain` is configured as a single object.
+export const DEFAULT_CHAIN_NAME = 'default';
+
 export const ConfigChainSchema = z
   .object({
+    // Identifies the chain in logs, persisted state and the REST API. Must be unique across chains.
+    name: z
+      .string()
+      .regex(/^[A-Za-z0-9_-]+$/)
+      .default(DEFAULT_CHAIN_NAME),
     enabled: z.boolean().default(false),
+    // HTTP(S) or WebSocket URL. With a WebSocket URL, the listener and processor wake on new heads.
     rpc_url: z.string().optional(),
+    // Fallback RPC URLs. Requests go to the best-scored endpoint, failing over to the others on errors.
+    rpc_urls: z.string().url().array().default([]),
+    // Send raw txs to every RPC endpoint instead of only the best-scored one.
+    broadcast_transactions: z.boolean().default(false),
     trail_head_blocks: z.number().default(1),
+    // "events" discovers subscriptions from Coordinator event logs, falling back to "poll" (re-reading
+    // subscriptions by ID) for block ranges whose logs can't be fetched.
+    sync_mode: z.enum(['poll', 'events']).default('poll'),
+    // How many blocks behind the last synced block are checked for reorgs.
+    reorg_depth: z.number().int().nonnegative().default(64),
     registry_address: AddressSchema.optional(),
     wallet: ConfigWalletSchema.optional(),
+    // Skips subscriptions whose payment doesn't cover the estimated gas cost of delivering their output.
+    profitability: ConfigProfitabilitySchema.default(
+      ConfigProfitabilitySchema.parse({})
+    ),
+    balance_monitor: ConfigBalanceMonitorSchema.default(
+      ConfigBalanceMonitorSchema.parse({})
+    ),
+    retry: ConfigRetrySchema.default(ConfigRetrySchema.parse({})),
+    scheduler: ConfigSchedulerSchema.default(ConfigSchedulerSchema.parse({})),
     snapshot_sync: ConfigSnapshotSyncSchema.default(
       ConfigSnapshotSyncSchema.parse({})
     ),
   })
-  .refine(({ enabled, rpc_url }) => (enabled ? !!rpc_url : true), {
-    message: 'rpc_url must be defined when chain is enabled',
-  })
+  .refine(
+    ({ enabled, rpc_url, rpc_urls }) =>
+      enabled ? !!rpc_url || rpc_urls.length > 0 : true,
+    {
+      message: 'rpc_url or rpc_urls must be defined when chain is enabled',
+    }
+  )
   .refine(
     ({ enabled, registry_address }) => (enabled ? !!registry_address : true),
     {
@@ -58,9 +295,16 @@ export const ConfigChainSchema = z
   .refine(({ enabled, wallet }) => (enabled ? wallet : true), {
     message: 'wallet must be defined when chain is enabled',
   })
-  .refine(({ enabled, wallet }) => (enabled ? wallet?.private_key : true), {
-    message: 'private_key must be defined when chain is enabled',
-  });
+  .refine(
+    ({ enabled, wallet }) =>
+      enabled
+        ? wallet?.private_key || wallet?.keystore || wallet?.remote_signer
+        : true,
+    {
+      message:
+        'private_key, keystore or remote_signer must be defined when chain is enabled',
+    }
+  );
 
 export const ConfigDockerSchema = z
   .object({
@@ -78,7 +322,9 @@ export const InfernetContainerSchema = z
     port: z.number().default(3000),
     external: z.boolean().default(true),
     gpu: z.boolean().default(false),
-    accepted_payments: z.object({}).catchall(z.number()).default({}),
+    // Minimum payment amounts by token, in base units. Amounts above `Number.MAX_SAFE_INTEGER` (e.g. most
+    // 18-decimal token amounts) must be decimal strings.
+    accepted_payments: z.object({}).catchall(TokenAmountSchema).default({}),
     allowed_ips: z.string().array().default([]),
     allowed_addresses: z.string().array().default([]),
     allowed_delegate_addresses: z.string().array().default([]),
@@ -105,10 +351,45 @@ export const ConfigLogSchema = z
   })
   .strict();
 
+export const ConfigWebhookSchema = z
+  .object({
+    retries: z.number().default(5),
+    sleep: z.number().default(1000),
+    backoff: z.number().default(2),
+    timeout: z.number().default(10_000),
+    // Job callback hosts that may resolve to loopback, link-local or private addresses (e.g. receivers
+    // on the node's own network). Callbacks to any other such host are refused.
+    allowed_private_hosts: z.string().array().default([]),
+  })
+  .strict();
+
+export const ConfigStatsSchema = z
+  .object({
+    // Sink that node stats are POSTed to when `forward_stats` is enabled.
+    url: z
+      .string()
+      .url()
+      .regex(/^https?:\/\//, 'Must be an HTTP(S) URL')
+      .optional(),
+    interval: z.number().positive().default(60_000),
+    timeout: z.number().positive().default(10_000),
+  })
+  .strict();
+
 export const ConfigSchema = z
   .object({
     containers: InfernetContainerSchema.array().default([]),
-    chain: ConfigChainSchema,
+    // A single chain, or a list of named chains that share containers.
+    chain: z
+      .union([ConfigChainSchema, ConfigChainSchema.array().nonempty()])
+      .transform((chain) => [chain].flat())
+      // Refinements also run on invalid (untransformed) chain configs, so the value is flattened again.
+      .refine(
+        (chains) =>
+          new Set([chains].flat().map(({ name }) => name)).size ===
+          [chains].flat().length,
+        { message: 'Chain names must be unique' }
+      ),
     docker: ConfigDockerSchema.optional(),
     forward_stats: z.boolean().default(true),
     log: ConfigLogSchema.default(ConfigLogSchema.parse({})),
@@ -116,6 +397,8 @@ export const ConfigSchema = z
     redis: ConfigRedisSchema.default(ConfigRedisSchema.parse({})),
     server: ConfigServerSchema.default(ConfigServerSchema.parse({})),
     startup_wait: z.number().default(5),
+    stats: ConfigStatsSchema.default(ConfigStatsSchema.parse({})),
+    webhook: ConfigWebhookSchema.default(ConfigWebhookSchema.parse({})),
   })
   .refine(
     ({ manage_containers, containers }) =>
@@ -129,10 +412,32 @@ export const ConfigSchema = z
 
 export type ConfigRateLimit = z.infer<typeof ConfigRateLimitSchema>;
 
+export type APIKeyScope = z.infer<typeof APIKeyScopeSchema>;
+
+export type ConfigAPIKey = z.infer<typeof ConfigAPIKeySchema>;
+
 export type ConfigServer = z.infer<typeof ConfigServerSchema>;
 
+export type ConfigGas = z.infer<typeof ConfigGasSchema>;
+
+export type RetryErrorClass = z.infer<typeof RetryErrorClassSchema>;
+
+export type ConfigRetryPolicy = z.infer<typeof ConfigRetryPolicySchema>;
+
+export type ConfigRetry = z.infer<typeof ConfigRetrySchema>;
+
+export type ConfigKeystore = z.infer<typeof ConfigKeystoreSchema>;
+
+export type ConfigRemoteSigner = z.infer<typeof ConfigRemoteSignerSchema>;
+
 export type ConfigWallet = z.infer<typeof ConfigWalletSchema>;
 
+export type ConfigProfitability = z.infer<typeof ConfigProfitabilitySchema>;
+
+export type ConfigScheduler = z.infer<typeof ConfigSchedulerSchema>;
+
+export type ConfigBalanceMonitor = z.infer<typeof ConfigBalanceMonitorSchema>;
+
 export type ConfigSnapshotSync = z.infer<typeof ConfigSnapshotSyncSchema>;
 
 export type ConfigChain = z.infer<typeof ConfigChainSchema>;
@@ -145,6 +450,10 @@ export type ConfigRedis = z.infer<typeof ConfigRedisSchema>;
 
 export type ConfigLog = z.infer<typeof ConfigLogSchema>;
 
+export type ConfigWebhook = z.infer<typeof ConfigWebhookSchema>;
+
+export type ConfigStats = z.infer<typeof ConfigStatsSchema>;
+
 export type Config = z.infer<typeof ConfigSchema>;
 
 export const loadValidatedConfig = (
@@ -160,6 +469,8 @@ export const loadValidatedConfig = (
     redis,
     server,
     startup_wait,
+    stats,
+    webhook,
   } = JSON.parse(fs.readFileSync(path, 'utf8'));
 
   // `safeParse` returns an object containing either the successfully parsed data or a ZodError instance
@@ -174,6 +485,8 @@ export const loadValidatedConfig = (
     redis,
     server,
     startup_wait,
+    stats,
+    webhook,
   });
 
   if (!data) {
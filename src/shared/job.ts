@@ -55,6 +55,7 @@ export const JobStatusSchema = z.union([
   z.literal('running'),
   z.literal('success'),
   z.literal('failed'),
+  z.literal('cancelled'),
 ]);
 
 export const JobResultSchema = z
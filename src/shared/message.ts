@@ -15,6 +15,8 @@ export const BaseMessageSchema = z
   .object({
     id: z.string(),
     ip: z.string(),
+    // ID of the API key that owns the job. Jobs are owned by `ip` if unset.
+    owner: z.string().optional(),
   })
   .strict();
 
@@ -23,6 +25,15 @@ export const OffchainJobMessageSchema = BaseMessageSchema.extend({
   data: z.object({}).catchall(z.any()),
   type: z.literal(MessageType.OffchainJob),
   requires_proof: z.boolean().optional().default(false),
+  // If set, the job result is POSTed to this URL once the job completes. Hosts that resolve to
+  // loopback, link-local or private addresses are refused, unless in `webhook.allowed_private_hosts`.
+  callback_url: z
+    .string()
+    .url()
+    .regex(/^https?:\/\//)
+    .optional(),
+  // If set, webhook requests are signed with an HMAC-SHA256 of this secret.
+  callback_secret: z.string().optional(),
 }).strict();
 
 export const DelegatedSubscriptionMessageSchema = BaseMessageSchema.extend({
@@ -31,6 +42,8 @@ export const DelegatedSubscriptionMessageSchema = BaseMessageSchema.extend({
   data: z.object({}).catchall(z.any()),
   type: z.literal(MessageType.DelegatedSubscription),
   requires_proof: z.boolean().optional().default(false),
+  // Name of the chain to deliver the subscription on. Optional if the node serves a single chain.
+  chain: z.string().optional(),
 }).strict();
 
 export const SubscriptionCreatedMessageSchema = z
@@ -27,6 +27,23 @@ export const HexSchema = z.custom<Hex>((val) => {
   return typeof val === 'string' ? val.substring(0, 2) === '0x' : false;
 });
 
+// Token amounts in base units, as bigints since 18-decimal amounts exceed `Number.MAX_SAFE_INTEGER`. Safe
+// integers and decimal strings are converted; larger amounts must be decimal strings, since JSON numbers
+// can't hold them precisely.
+export const TokenAmountSchema = z
+  .union([
+    z.bigint(),
+    z
+      .number()
+      .int()
+      .safe(
+        'Token amounts above Number.MAX_SAFE_INTEGER must be decimal strings'
+      ),
+    z.string().regex(/^[0-9]+$/),
+  ])
+  .transform((amount) => BigInt(amount))
+  .pipe(z.bigint().nonnegative());
+
 export const BlockNumberSchema = z.custom<BlockNumber>();
 
 export const ContractInstanceSchema =
@@ -23,3 +23,69 @@ export abstract class AsyncTask {
     this.shutdown = true;
   });
 }
+
+// Key-value store that components persist their state to, so that it survives node restarts.
+export abstract class StateStore {
+  abstract get_state(key: string): Promise<string | undefined>;
+
+  abstract set_state(key: string, value: string): Promise<void>;
+
+  // Appends to a list, e.g. for append-only logs that would be costly to rewrite as a whole.
+  abstract append_state(key: string, value: string): Promise<void>;
+
+  abstract get_state_list(key: string): Promise<string[]>;
+}
+
+// Prefixes the keys of another state store, e.g. so that components of different chains don't share state.
+export class NamespacedStateStore extends StateStore {
+  static fieldSchemas = {
+    _store: z.instanceof(StateStore),
+    _namespace: z.string(),
+  };
+
+  static methodSchemas = {
+    get_state: z
+      .function()
+      .args(z.string())
+      .returns(z.promise(z.string().optional())),
+    set_state: z
+      .function()
+      .args(z.string(), z.string())
+      .returns(z.promise(z.void())),
+    append_state: z
+      .function()
+      .args(z.string(), z.string())
+      .returns(z.promise(z.void())),
+    get_state_list: z
+      .function()
+      .args(z.string())
+      .returns(z.promise(z.string().array())),
+  };
+
+  #store: z.infer<typeof NamespacedStateStore.fieldSchemas._store>;
+  #namespace: z.infer<typeof NamespacedStateStore.fieldSchemas._namespace>;
+
+  constructor(store, namespace) {
+    super();
+
+    this.#store = NamespacedStateStore.fieldSchemas._store.parse(store);
+    this.#namespace =
+      NamespacedStateStore.fieldSchemas._namespace.parse(namespace);
+  }
+
+  get_state = NamespacedStateStore.methodSchemas.get_state.implement((key) =>
+    this.#store.get_state(`${this.#namespace}:${key}`)
+  );
+
+  set_state = NamespacedStateStore.methodSchemas.set_state.implement(
+    (key, value) => this.#store.set_state(`${this.#namespace}:${key}`, value)
+  );
+
+  append_state = NamespacedStateStore.methodSchemas.append_state.implement(
+    (key, value) => this.#store.append_state(`${this.#namespace}:${key}`, value)
+  );
+
+  get_state_list = NamespacedStateStore.methodSchemas.get_state_list.implement(
+    (key) => this.#store.get_state_list(`${this.#namespace}:${key}`)
+  );
+}
@@ -1,7 +1,7 @@
 // Reference: https://github.com/ritual-net/infernet-node/blob/7418dff0b55ba85c27b8764529f5e5f0aa9cbdb3/src/shared/subscription.py.
 import { z } from 'zod';
 import { getAddress, hashTypedData } from 'viem';
-import { ChecksumAddressSchema, HexSchema } from './schemas';
+import { ChecksumAddressSchema, HexSchema, TokenAmountSchema } from './schemas';
 import { ContainerLookup } from '../chain/containerLookup';
 import { UINT32_MAX, ZERO_ADDRESS } from '../utils/constants';
 import { add0x, getUnixTimestamp } from '../utils/helpers';
@@ -18,7 +18,7 @@ export class Subscription {
     _containers_hash: HexSchema,
     _lazy: z.boolean(),
     _verifier: ChecksumAddressSchema,
-    _payment_amount: z.number(),
+    _payment_amount: TokenAmountSchema,
     _payment_token: ChecksumAddressSchema,
     _wallet: ChecksumAddressSchema,
     _responses: z.object({}).catchall(z.number()),
@@ -55,7 +55,7 @@ export class Subscription {
       returns: HexSchema,
     },
     payment_amount: {
-      returns: z.number(),
+      returns: z.bigint(),
     },
     payment_token: {
       returns: ChecksumAddressSchema,
@@ -79,9 +79,14 @@ export class Subscription {
       returns: z.boolean(),
     },
     get_response_count: z.function().args(z.number()).returns(z.number()),
+    get_interval_end: z
+      .function()
+      .args(z.number())
+      .returns(z.number().optional()),
     set_response_count: z.function().args(z.number(), z.number()),
     get_node_replied: z.function().args(z.number()).returns(z.boolean()),
     set_node_replied: z.function().args(z.number()),
+    reset_node_replied: z.function(),
     get_delegate_subscription_typed_data: z
       .function()
       .args(z.number(), z.number(), z.number(), ChecksumAddressSchema)
@@ -98,7 +103,7 @@ export class Subscription {
           HexSchema,
           z.boolean(),
           z.string(),
-          z.number(),
+          z.bigint(),
           z.string(),
           z.string(),
         ])
@@ -284,7 +289,7 @@ export class Subscription {
     typeof Subscription.methodSchemas.provides_payment.returns
   > {
     return Subscription.methodSchemas.provides_payment.returns.parse(
-      this.payment_amount > 0
+      this.payment_amount > 0n
     );
   }
 
@@ -318,6 +323,12 @@ export class Subscription {
     (interval) => this.#responses[interval] ?? 0
   );
 
+  // Returns the time at which a subscription interval ends, or undefined for callback subscriptions.
+  get_interval_end = Subscription.methodSchemas.get_interval_end.implement(
+    (interval) =>
+      this.is_callback ? undefined : this.#active_at + interval * this.#period
+  );
+
   // Sets response count for a subscription interval.
   set_response_count = Subscription.methodSchemas.set_response_count.implement(
     (interval, count) => {
@@ -347,6 +358,13 @@ export class Subscription {
     }
   );
 
+  // Forgets which intervals the node has replied to, e.g. after the replies were reorged out.
+  reset_node_replied = Subscription.methodSchemas.reset_node_replied.implement(
+    () => {
+      this.#node_replied = Subscription.fieldSchemas._node_replied.parse({});
+    }
+  );
+
   // Generates EIP-712 typed data to sign for `DelegateeSubscription`.
   get_delegate_subscription_typed_data =
     Subscription.methodSchemas.get_delegate_subscription_typed_data.implement(
@@ -406,7 +424,7 @@ export class Subscription {
                   containerId: this.containers_hash,
                   lazy: this.#lazy,
                   verifier: this.verifier,
-                  paymentAmount: BigInt(this.payment_amount),
+                  paymentAmount: this.payment_amount,
                   paymentToken: this.payment_token,
                   wallet: this.wallet,
                 },
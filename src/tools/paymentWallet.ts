@@ -0,0 +1,88 @@
+// Manages the node's payment wallet through its admin REST routes, so that earnings can be inspected and
+// moved without a block explorer. The API key must have the `admin` scope. Withdrawals and revocations
+// require the node to have API keys configured.
+//
+// Usage:
+//   npm run payment-wallet -- balances [token,...]
+//   npm run payment-wallet -- withdraw <token> <amount> [recipient]
+//   npm run payment-wallet -- revoke <token> [spender]
+//
+// Tokens are addresses (the zero address for the native token) and amounts are in base units. Set
+// INFERNET_URL (default http://127.0.0.1:4000), INFERNET_API_KEY and INFERNET_CHAIN (required if the node
+// serves multiple chains) to target a node.
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const url = process.env.INFERNET_URL ?? 'http://127.0.0.1:4000';
+const apiKey = process.env.INFERNET_API_KEY;
+const chain = process.env.INFERNET_CHAIN;
+
+const usage = `Usage:
+  npm run payment-wallet -- balances [token,...]
+  npm run payment-wallet -- withdraw <token> <amount> [recipient]
+  npm run payment-wallet -- revoke <token> [spender]`;
+
+// Sends a request to the node's payment wallet routes, exiting with the error if it fails.
+const request = async (
+  method: 'GET' | 'POST',
+  path: string,
+  query: { [key: string]: string | undefined },
+  body?: object
+) => {
+  const params = new URLSearchParams(
+    Object.entries({ ...query, chain }).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined
+    )
+  );
+  const response = await fetch(`${url}/admin/payment-wallet${path}?${params}`, {
+    method,
+    headers: {
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...(apiKey ? { 'X-API-Key': apiKey } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error(`Request failed (${response.status}): ${result.error}`);
+
+    process.exit(1);
+  }
+
+  console.log(JSON.stringify(result, null, 2));
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+const commands: { [command: string]: () => Promise<void> | undefined } = {
+  balances: () => request('GET', '', { tokens: args[0] }),
+  withdraw: () =>
+    args.length >= 2
+      ? request(
+          'POST',
+          '/withdraw',
+          {},
+          { token: args[0], amount: args[1], recipient: args[2] }
+        )
+      : undefined,
+  revoke: () =>
+    args.length >= 1
+      ? request('POST', '/revoke', {}, { token: args[0], spender: args[1] })
+      : undefined,
+};
+
+const run = commands[command]?.();
+
+if (!run) {
+  console.error(usage);
+
+  process.exit(1);
+}
+
+run.catch((err) => {
+  console.error(`Request failed: ${err}`);
+
+  process.exit(1);
+});
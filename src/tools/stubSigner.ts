@@ -0,0 +1,84 @@
+// Minimal remote signer for local testing of `RemoteSigner`: holds a private key in memory and serves
+// `eth_accounts`, `eth_signTransaction`, `eth_signTypedData_v4` and `personal_sign` over JSON-RPC. Not
+// meant for production keys, since it signs anything it is sent.
+//
+// Usage: STUB_SIGNER_PRIVATE_KEY=0x... STUB_SIGNER_PORT=8545 npm run stub-signer
+import * as dotenv from 'dotenv';
+import Fastify from 'fastify';
+import { Hex, hexToBigInt, hexToNumber, TransactionSerializable } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { add0x } from '../utils/helpers';
+
+dotenv.config();
+
+const account = privateKeyToAccount(
+  add0x(process.env.STUB_SIGNER_PRIVATE_KEY ?? '')
+);
+const port = Number(process.env.STUB_SIGNER_PORT ?? 8545);
+
+const bigintOrUndefined = (value?: Hex) =>
+  value === undefined ? undefined : hexToBigInt(value);
+
+const numberOrUndefined = (value?: Hex) =>
+  value === undefined ? undefined : hexToNumber(value);
+
+// Converts an `eth_signTransaction` tx object (hex-encoded quantities) into a signable tx.
+const parseTransaction = (tx: { [key: string]: any }) =>
+  ({
+    chainId: numberOrUndefined(tx.chainId),
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: bigintOrUndefined(tx.value),
+    gas: bigintOrUndefined(tx.gas),
+    nonce: numberOrUndefined(tx.nonce),
+    ...(tx.gasPrice !== undefined
+      ? { gasPrice: bigintOrUndefined(tx.gasPrice) }
+      : {
+          maxFeePerGas: bigintOrUndefined(tx.maxFeePerGas),
+          maxPriorityFeePerGas: bigintOrUndefined(tx.maxPriorityFeePerGas),
+        }),
+  } as TransactionSerializable);
+
+const handlers: { [method: string]: (params: any[]) => Promise<any> } = {
+  eth_accounts: async () => [account.address],
+  eth_signTransaction: async ([tx]) =>
+    account.signTransaction(parseTransaction(tx)),
+  eth_signTypedData_v4: async ([, typedData]) =>
+    account.signTypedData(
+      typeof typedData === 'string' ? JSON.parse(typedData) : typedData
+    ),
+  personal_sign: async ([message]) =>
+    account.signMessage({ message: { raw: message } }),
+};
+
+const server = Fastify();
+
+server.post('/', async (request) => {
+  const {
+    id,
+    method,
+    params = [],
+  } = request.body as {
+    id: number;
+    method: string;
+    params?: any[];
+  };
+  const handler = handlers[method];
+
+  if (!handler)
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32601, message: `Method not found: ${method}` },
+    };
+
+  try {
+    return { jsonrpc: '2.0', id, result: await handler(params) };
+  } catch (err) {
+    return { jsonrpc: '2.0', id, error: { code: -32000, message: `${err}` } };
+  }
+});
+
+server.listen({ port }).then(() => {
+  console.info('Stub signer listening', { port, address: account.address });
+});
@@ -493,6 +493,16 @@ export const ERC20_ABI: Abi = [
     outputs: [{ name: 'result', type: 'uint256', internalType: 'uint256' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'transfer',
+    inputs: [
+      { name: 'to', type: 'address', internalType: 'address' },
+      { name: 'amount', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
 ];
 
 export const PAYMENT_WALLET_ABI: Abi = [
@@ -524,6 +534,23 @@ export const PAYMENT_WALLET_ABI: Abi = [
     outputs: [{ name: 'result', type: 'address', internalType: 'address' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'lockedBalanceOf',
+    inputs: [{ name: 'token', type: 'address', internalType: 'address' }],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'withdraw',
+    inputs: [
+      { name: 'token', type: 'address', internalType: 'address' },
+      { name: 'amount', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
 ];
 
 export const READER_ABI: Abi = [
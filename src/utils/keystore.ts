@@ -0,0 +1,88 @@
+// Reference: https://ethereum.org/en/developers/docs/data-structures-and-encoding/web3-secret-storage.
+import { readFileSync } from 'fs';
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'crypto';
+import { z } from 'zod';
+import { Hex, keccak256 } from 'viem';
+import { ConfigKeystore } from '../shared/config';
+
+const KeystoreSchema = z.object({
+  version: z.literal(3),
+  crypto: z.object({
+    cipher: z.literal('aes-128-ctr'),
+    ciphertext: z.string(),
+    cipherparams: z.object({ iv: z.string() }),
+    kdf: z.enum(['scrypt', 'pbkdf2']),
+    kdfparams: z.record(z.any()),
+    mac: z.string(),
+  }),
+});
+
+const deriveKey = (
+  password: string,
+  kdf: 'scrypt' | 'pbkdf2',
+  params: { [key: string]: any }
+) => {
+  const salt = Buffer.from(params.salt, 'hex');
+
+  if (kdf === 'scrypt') {
+    const { n: N, r, p, dklen } = params;
+
+    // Node's default memory limit (32 MiB) is below what the standard scrypt params (N = 2^18, r = 8) need.
+    return scryptSync(password, salt, dklen, {
+      N,
+      r,
+      p,
+      maxmem: 2 * 128 * r * (N + p),
+    });
+  }
+
+  if (params.prf !== 'hmac-sha256')
+    throw new Error(`Unsupported keystore PRF: ${params.prf}`);
+
+  return pbkdf2Sync(password, salt, params.c, params.dklen, 'sha256');
+};
+
+// Decrypts a Web3 Secret Storage (v3) keystore, returning its private key.
+export const decryptKeystore = (json: string, password: string): Hex => {
+  const { crypto } = KeystoreSchema.parse(JSON.parse(json));
+  const derivedKey = deriveKey(password, crypto.kdf, crypto.kdfparams);
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = keccak256(
+    Buffer.concat([derivedKey.subarray(16, 32), ciphertext])
+  ).slice(2);
+
+  if (mac !== crypto.mac.toLowerCase())
+    throw new Error('Invalid keystore password');
+
+  const decipher = createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, 'hex')
+  );
+
+  return `0x${Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('hex')}`;
+};
+
+// Reads the keystore password from the configured env var or file. Trailing newlines are ignored.
+const readPassword = ({ password_env, password_file }: ConfigKeystore) => {
+  if (password_env) {
+    const password = process.env[password_env];
+
+    if (password === undefined)
+      throw new Error(`Keystore password env var ${password_env} is not set`);
+
+    return password;
+  }
+
+  return readFileSync(password_file as string, 'utf8').replace(/\r?\n$/, '');
+};
+
+// Loads the private key from the configured keystore.
+export const loadKeystorePrivateKey = (config_keystore: ConfigKeystore) =>
+  decryptKeystore(
+    readFileSync(config_keystore.path, 'utf8'),
+    readPassword(config_keystore)
+  );
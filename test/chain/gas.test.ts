@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseGwei } from 'viem';
+import { GasStrategy } from '../../src/chain/gas';
+import { RPC } from '../../src/chain/rpc';
+import { ConfigGasSchema } from '../../src/shared/config';
+
+// Returns a strategy whose fee history has the given next base fee and priority fees (in gwei).
+const makeStrategy = (
+  baseFee: string,
+  priorityFees: string[],
+  config_gas: object = {}
+) => {
+  const rpc = Object.assign(Object.create(RPC.prototype), {
+    get_fee_history: vi.fn(async () => ({
+      baseFeePerGas: [parseGwei('1'), parseGwei(baseFee)],
+      reward: priorityFees.map((fee) => [parseGwei(fee)]),
+    })),
+  });
+
+  return new GasStrategy(rpc, ConfigGasSchema.parse(config_gas));
+};
+
+describe('GasStrategy', () => {
+  it('estimates fees from the base fee and median priority fee', async () => {
+    const strategy = makeStrategy('10', ['3', '1', '2']);
+
+    expect(await strategy.estimate_fees()).toEqual({
+      maxFeePerGas: parseGwei('22'),
+      maxPriorityFeePerGas: parseGwei('2'),
+    });
+  });
+
+  it('caps estimates at the max fee per gas', async () => {
+    const strategy = makeStrategy('10', ['2'], { max_fee_per_gas: 15 });
+
+    expect(await strategy.estimate_fees()).toEqual({
+      maxFeePerGas: parseGwei('15'),
+      maxPriorityFeePerGas: parseGwei('2'),
+    });
+  });
+
+  describe('bump_fees', () => {
+    it('bumps fees by the replacement fee bump, rounding up', async () => {
+      const strategy = makeStrategy('1', ['0']);
+
+      expect(
+        await strategy.bump_fees({
+          maxFeePerGas: parseGwei('20'),
+          maxPriorityFeePerGas: 3n,
+        })
+      ).toEqual({
+        maxFeePerGas: parseGwei('22.5'),
+        // 3 * 1.125 = 3.375, rounded up.
+        maxPriorityFeePerGas: 4n,
+      });
+    });
+
+    it('uses the current estimate if it is higher', async () => {
+      const strategy = makeStrategy('50', ['5']);
+
+      expect(
+        await strategy.bump_fees({
+          maxFeePerGas: parseGwei('20'),
+          maxPriorityFeePerGas: parseGwei('2'),
+        })
+      ).toEqual({
+        maxFeePerGas: parseGwei('105'),
+        maxPriorityFeePerGas: parseGwei('5'),
+      });
+    });
+
+    it('gives up once bumped fees exceed the max fee per gas', async () => {
+      const strategy = makeStrategy('1', ['0'], { max_fee_per_gas: 22 });
+      const fees = {
+        maxFeePerGas: parseGwei('19'),
+        maxPriorityFeePerGas: parseGwei('1'),
+      };
+
+      expect(await strategy.bump_fees(fees)).toBeDefined();
+      expect(
+        await strategy.bump_fees({ ...fees, maxFeePerGas: parseGwei('20') })
+      ).toBeUndefined();
+    });
+  });
+});
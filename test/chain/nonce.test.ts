@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseError, NonceTooLowError } from 'viem';
+import { NonceManager } from '../../src/chain/nonce';
+import { RPC } from '../../src/chain/rpc';
+
+const ADDRESS = '0x0000000000000000000000000000000000000001';
+const HASH = `0x${'ab'.repeat(32)}` as const;
+
+describe('NonceManager', () => {
+  let chainNonce: number;
+  let getNonce: ReturnType<typeof vi.fn>;
+  let nonces: NonceManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    chainNonce = 5;
+    getNonce = vi.fn(async () => chainNonce);
+    nonces = new NonceManager(
+      Object.assign(Object.create(RPC.prototype), { get_nonce: getNonce }),
+      ADDRESS
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('syncs once, then hands out nonces locally', async () => {
+    expect(await nonces.acquire()).toBe(5);
+    expect(await nonces.acquire()).toBe(6);
+    expect(await nonces.acquire()).toBe(7);
+    expect(getNonce).toHaveBeenCalledOnce();
+    expect(getNonce).toHaveBeenCalledWith(ADDRESS, 'pending');
+  });
+
+  it('hands out distinct nonces to concurrent acquires', async () => {
+    const acquired = await Promise.all([
+      nonces.acquire(),
+      nonces.acquire(),
+      nonces.acquire(),
+    ]);
+
+    expect(acquired.sort()).toEqual([5, 6, 7]);
+  });
+
+  it('fills gaps left by released nonces first, lowest first', async () => {
+    for (let i = 0; i < 4; i++) await nonces.acquire();
+
+    nonces.release(7);
+    nonces.release(6);
+
+    expect(await nonces.acquire()).toBe(6);
+    expect(await nonces.acquire()).toBe(7);
+    expect(await nonces.acquire()).toBe(9);
+  });
+
+  it('reuses the last nonce when it is released', async () => {
+    await nonces.acquire();
+    const nonce = await nonces.acquire();
+
+    nonces.release(nonce);
+
+    expect(await nonces.acquire()).toBe(nonce);
+  });
+
+  it('ignores releases of nonces it did not hand out', async () => {
+    nonces.release(5);
+    await nonces.acquire();
+    nonces.release(10);
+
+    expect(await nonces.acquire()).toBe(6);
+  });
+
+  it('releases the nonce of a dropped tx', async () => {
+    const nonce = await nonces.acquire();
+    await nonces.acquire();
+
+    nonces.sent(nonce, HASH);
+    nonces.dropped(HASH);
+    // Only once, even if the drop is reported again.
+    nonces.dropped(HASH);
+
+    expect(await nonces.acquire()).toBe(nonce);
+    expect(await nonces.acquire()).toBe(7);
+  });
+
+  it('releases the nonce of a tx that failed to send', async () => {
+    await expect(
+      nonces.send(async () => {
+        throw new Error('Simulation failed');
+      })
+    ).rejects.toThrow('Simulation failed');
+
+    expect(await nonces.send(async () => HASH)).toBe(HASH);
+    expect(getNonce).toHaveBeenCalledOnce();
+
+    nonces.dropped(HASH);
+
+    expect(await nonces.acquire()).toBe(5);
+  });
+
+  it('resyncs after a nonce error', async () => {
+    await nonces.acquire();
+
+    chainNonce = 9;
+
+    await expect(
+      nonces.send(async () => {
+        throw new BaseError('Send failed', { cause: new NonceTooLowError() });
+      })
+    ).rejects.toThrow('Send failed');
+
+    expect(await nonces.acquire()).toBe(9);
+    expect(getNonce).toHaveBeenCalledTimes(2);
+  });
+});
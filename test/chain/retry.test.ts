@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  BaseError,
+  HttpRequestError,
+  InsufficientFundsError,
+  NonceTooLowError,
+  TimeoutError,
+} from 'viem';
+import {
+  classifyError,
+  isNonceError,
+  RetryPolicy,
+} from '../../src/chain/retry';
+
+describe('RetryPolicy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries listed error classes until max_attempts', () => {
+    const policy = new RetryPolicy('delivery', {
+      max_attempts: 3,
+      delay: 0,
+      backoff: 1,
+      jitter: 0,
+      retry_on: ['revert', 'network'],
+    });
+
+    expect(policy.should_retry(1, 'revert')).toBe(true);
+    expect(policy.should_retry(2, 'network')).toBe(true);
+    expect(policy.should_retry(3, 'revert')).toBe(false);
+    expect(policy.should_retry(1, 'nonce')).toBe(false);
+  });
+
+  it('backs off delays up to max_delay', () => {
+    const policy = new RetryPolicy('receipt', {
+      max_attempts: 5,
+      delay: 100,
+      backoff: 2,
+      max_delay: 300,
+      jitter: 0,
+      retry_on: [],
+    });
+
+    expect([1, 2, 3, 4].map(policy.get_delay)).toEqual([100, 200, 300, 300]);
+  });
+
+  it('randomizes delays by up to jitter', () => {
+    const policy = new RetryPolicy('simulation', {
+      max_attempts: 2,
+      delay: 1_000,
+      backoff: 1,
+      jitter: 0.5,
+      retry_on: [],
+    });
+
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(1);
+
+    expect(policy.get_delay(1)).toBe(500);
+    expect(policy.get_delay(1)).toBe(1_500);
+  });
+
+  it('counts failures by class', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+    const policy = new RetryPolicy('delivery', {
+      max_attempts: 2,
+      delay: 0,
+      backoff: 1,
+      jitter: 0,
+      retry_on: ['revert'],
+    });
+
+    const failure = policy.record_failure(1, 'revert', 'reverted', {
+      id: 1,
+    });
+    policy.record_failure(2, 'revert', 'reverted', { id: 1 });
+    policy.record_failure(1, 'timeout', 'timed out', { id: 2 });
+
+    expect(failure).toMatchObject({
+      attempt: 1,
+      class: 'revert',
+      reason: 'reverted',
+    });
+    expect(policy.failures).toEqual({ revert: 2, timeout: 1 });
+  });
+});
+
+describe('classifyError', () => {
+  const wrap = (cause: Error) => new BaseError('Request failed', { cause });
+
+  it('classifies viem errors by their cause', () => {
+    expect(classifyError(wrap(new NonceTooLowError()))).toBe('nonce');
+    expect(classifyError(wrap(new InsufficientFundsError()))).toBe(
+      'insufficient_funds'
+    );
+    expect(
+      classifyError(wrap(new TimeoutError({ body: {}, url: 'http://rpc' })))
+    ).toBe('timeout');
+    expect(
+      classifyError(wrap(new HttpRequestError({ url: 'http://rpc' })))
+    ).toBe('network');
+  });
+
+  it('classifies other errors as unknown', () => {
+    expect(classifyError(new Error('boom'))).toBe('unknown');
+    expect(classifyError(new BaseError('boom'))).toBe('unknown');
+  });
+
+  it('treats underpriced replacements as nonce errors', () => {
+    expect(
+      isNonceError(
+        new BaseError('Request failed', {
+          details: 'replacement transaction underpriced',
+        })
+      )
+    ).toBe(true);
+  });
+});
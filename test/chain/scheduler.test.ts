@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContainerLookup } from '../../src/chain/containerLookup';
+import {
+  compareScheduled,
+  getNextDue,
+  IntervalState,
+} from '../../src/chain/scheduler';
+import { Subscription } from '../../src/shared/subscription';
+import { ZERO_ADDRESS } from '../../src/utils/constants';
+
+const NOW = 1_700_000_000;
+const POLL_PERIOD = 5_000;
+
+const makeSubscription = (active_at: number, period: number) =>
+  new Subscription(
+    1,
+    new ContainerLookup([]),
+    ZERO_ADDRESS,
+    active_at,
+    period,
+    3,
+    1,
+    `0x${'00'.repeat(32)}`,
+    false,
+    ZERO_ADDRESS,
+    0n,
+    ZERO_ADDRESS,
+    ZERO_ADDRESS
+  );
+
+const nextDue = (subscription: Subscription, state: IntervalState) =>
+  getNextDue(subscription, () => state, POLL_PERIOD);
+
+describe('getNextDue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW * 1_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is due once inactive subscriptions become active', () => {
+    const subscription = makeSubscription(NOW + 60, 10);
+    const getState = vi.fn();
+
+    expect(getNextDue(subscription, getState, POLL_PERIOD)).toBe(
+      (NOW + 61) * 1_000
+    );
+    expect(getState).not.toHaveBeenCalled();
+  });
+
+  it('is due now if the current interval was not handled', () => {
+    const subscription = makeSubscription(NOW - 25, 10);
+    const getState = vi.fn(() => ({ handled: false }));
+
+    expect(getNextDue(subscription, getState, POLL_PERIOD)).toBe(0);
+    expect(getState).toHaveBeenCalledWith(3);
+  });
+
+  it('is due once retries of the current interval are no longer deferred', () => {
+    const subscription = makeSubscription(NOW - 25, 10);
+
+    expect(
+      nextDue(subscription, { handled: false, deferred_until: NOW * 1_000 + 1 })
+    ).toBe(NOW * 1_000 + 1);
+  });
+
+  it('is due when the next interval starts if the current one was handled', () => {
+    const subscription = makeSubscription(NOW - 25, 10);
+
+    expect(
+      nextDue(subscription, {
+        handled: true,
+        dispatched_at: NOW * 1_000,
+        deferred_until: NOW * 1_000 + 1,
+      })
+    ).toBe((NOW + 5) * 1_000);
+  });
+
+  it('rechecks handled callback subscriptions every poll period', () => {
+    const subscription = makeSubscription(NOW - 25, 0);
+
+    expect(
+      nextDue(subscription, { handled: true, dispatched_at: NOW * 1_000 })
+    ).toBe(NOW * 1_000 + POLL_PERIOD);
+    expect(nextDue(subscription, { handled: true })).toBe(POLL_PERIOD);
+  });
+});
+
+describe('compareScheduled', () => {
+  type Scheduled = {
+    name: string;
+    due: number;
+    dispatched_at?: number;
+    deadline?: number;
+    payment_value?: bigint;
+  };
+
+  // Inactive subscriptions have no current interval, so their other keys must not be read.
+  const read = (key: string) => (scheduled: Scheduled) => {
+    if (scheduled.due > NOW)
+      throw new Error(`Read ${key} of ${scheduled.name}`);
+
+    return scheduled[key] ?? 0;
+  };
+
+  const schedule = (scheduled: Scheduled[]) =>
+    scheduled
+      .sort(
+        compareScheduled(NOW, {
+          dispatched_at: read('dispatched_at'),
+          deadline: read('deadline'),
+          payment_value: read('payment_value'),
+        })
+      )
+      .map(({ name }) => name);
+
+  it('orders subscriptions that are not due by when they are due', () => {
+    expect(
+      schedule([
+        { name: 'later', due: NOW + 20 },
+        { name: 'due', due: 0 },
+        { name: 'soon', due: NOW + 10 },
+      ])
+    ).toEqual(['due', 'soon', 'later']);
+  });
+
+  it('orders due subscriptions by least recently dispatched', () => {
+    expect(
+      schedule([
+        { name: 'retried', due: 0, dispatched_at: NOW - 1 },
+        { name: 'new', due: 0, deadline: 100 },
+        { name: 'retried earlier', due: 0, dispatched_at: NOW - 10 },
+      ])
+    ).toEqual(['new', 'retried earlier', 'retried']);
+  });
+
+  it('orders due subscriptions by deadline, then by payment', () => {
+    expect(
+      schedule([
+        { name: 'late deadline', due: 0, deadline: 200, payment_value: 10n },
+        { name: 'callback', due: 0, deadline: Infinity, payment_value: 10n },
+        { name: 'low payment', due: 0, deadline: 100, payment_value: 1n },
+        { name: 'high payment', due: 0, deadline: 100, payment_value: 2n },
+      ])
+    ).toEqual(['high payment', 'low payment', 'late deadline', 'callback']);
+  });
+});
@@ -0,0 +1,154 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { WebhookDispatcher } from '../../src/orchestration/webhook';
+import { ConfigWebhookSchema } from '../../src/shared/config';
+
+const JOB_RESULT = { id: 'job-1', status: 'success' } as const;
+
+describe('WebhookDispatcher', () => {
+  let server: Server;
+  let port: number;
+  let requests: { request: IncomingMessage; body: string }[];
+  // Status (and headers) the server responds with.
+  let response: [number, { [key: string]: string }?];
+
+  const makeDispatcher = (allowed_private_hosts: string[] = []) =>
+    new WebhookDispatcher(
+      ConfigWebhookSchema.parse({
+        retries: 2,
+        sleep: 0,
+        allowed_private_hosts,
+      })
+    );
+
+  beforeAll(async () => {
+    server = createServer((request, res) => {
+      let body = '';
+
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        requests.push({ request, body });
+        res.writeHead(...response).end();
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    response = [200];
+
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['loopback addresses', '127.0.0.1'],
+    ['IPv4-mapped IPv6 addresses', '[::ffff:127.0.0.1]'],
+    ['IPv6 loopback addresses', '[::1]'],
+    ['hosts resolving to blocked addresses', 'localhost'],
+  ])('refuses job callbacks to %s without retrying', async (_, host) => {
+    const dispatcher = makeDispatcher();
+
+    expect(
+      await dispatcher.notify(`http://${host}:${port}/`, undefined, JOB_RESULT)
+    ).toBe(false);
+    expect(requests).toHaveLength(0);
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it.each(['127.0.0.1', 'localhost'])(
+    'delivers job callbacks to allowed private host %s',
+    async (host) => {
+      const dispatcher = makeDispatcher([host]);
+
+      expect(
+        await dispatcher.notify(
+          `http://${host}:${port}/`,
+          undefined,
+          JOB_RESULT
+        )
+      ).toBe(true);
+      expect(requests).toHaveLength(1);
+      expect(JSON.parse(requests[0].body)).toEqual(JOB_RESULT);
+    }
+  );
+
+  it('does not follow redirects of job callbacks', async () => {
+    const dispatcher = makeDispatcher(['127.0.0.1']);
+
+    response = [302, { location: `http://127.0.0.1:${port}/redirected` }];
+
+    expect(
+      await dispatcher.notify(
+        `http://127.0.0.1:${port}/`,
+        undefined,
+        JOB_RESULT
+      )
+    ).toBe(false);
+    expect(requests.map(({ request }) => request.url)).not.toContain(
+      '/redirected'
+    );
+  });
+
+  it('retries failed deliveries', async () => {
+    const dispatcher = makeDispatcher(['127.0.0.1']);
+
+    response = [500];
+
+    expect(
+      await dispatcher.notify(
+        `http://127.0.0.1:${port}/`,
+        undefined,
+        JOB_RESULT
+      )
+    ).toBe(false);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('delivers alerts to private hosts', async () => {
+    const dispatcher = makeDispatcher();
+
+    expect(
+      await dispatcher.notify_alert(`http://localhost:${port}/`, undefined, {
+        type: 'low_balance',
+      })
+    ).toBe(true);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('signs requests if given a secret', async () => {
+    const dispatcher = makeDispatcher(['127.0.0.1']);
+
+    await dispatcher.notify(`http://127.0.0.1:${port}/`, 'secret', JOB_RESULT);
+
+    const [{ request, body }] = requests;
+    const timestamp = Number(request.headers['x-infernet-timestamp']);
+
+    expect(request.headers['x-infernet-signature']).toBe(
+      `sha256=${WebhookDispatcher.sign('secret', timestamp, body)}`
+    );
+  });
+});
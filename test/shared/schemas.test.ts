@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { TokenAmountSchema } from '../../src/shared/schemas';
+
+describe('TokenAmountSchema', () => {
+  it('accepts bigints', () => {
+    expect(TokenAmountSchema.parse(10n ** 18n)).toBe(10n ** 18n);
+  });
+
+  it('converts safe integers', () => {
+    expect(TokenAmountSchema.parse(0)).toBe(0n);
+    expect(TokenAmountSchema.parse(Number.MAX_SAFE_INTEGER)).toBe(
+      BigInt(Number.MAX_SAFE_INTEGER)
+    );
+  });
+
+  it('converts decimal strings, including amounts above MAX_SAFE_INTEGER', () => {
+    expect(TokenAmountSchema.parse('1000000000000000000000')).toBe(10n ** 21n);
+  });
+
+  it('rejects unsafe integers', () => {
+    const result = TokenAmountSchema.safeParse(Number.MAX_SAFE_INTEGER + 1);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      'Token amounts above Number.MAX_SAFE_INTEGER must be decimal strings'
+    );
+  });
+
+  it.each([-1, -1n, 1.5, '-1', '1.5', '0x10', '1e18', ''])(
+    'rejects %s',
+    (amount) => {
+      expect(TokenAmountSchema.safeParse(amount).success).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { decryptKeystore } from '../../src/utils/keystore';
+
+// The pbkdf2 test vector from https://ethereum.org/en/developers/docs/data-structures-and-encoding/web3-secret-storage.
+// Its scrypt vector uses params OpenSSL rejects (N >= 2^(16r)), so the scrypt keystore below encrypts the same key
+// with the params wallets use (N = 2^18, r = 8).
+const PASSWORD = 'testpassword';
+const PRIVATE_KEY =
+  '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+
+const PBKDF2_KEYSTORE = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext:
+      '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: 'hmac-sha256',
+      salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd',
+    },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+};
+
+const SCRYPT_KEYSTORE = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext:
+      'b160ff7e6d855b53a3f8d65e4b2850584cfaa01751807f19d07c298de16f802d',
+    kdf: 'scrypt',
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      p: 1,
+      r: 8,
+      salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19',
+    },
+    mac: 'daeeba49ffae86381ae33f74c05dc0038888a7806267a04a1ae2183a7f2b7b17',
+  },
+};
+
+describe('decryptKeystore', () => {
+  it('decrypts pbkdf2 keystores', () => {
+    expect(decryptKeystore(JSON.stringify(PBKDF2_KEYSTORE), PASSWORD)).toBe(
+      PRIVATE_KEY
+    );
+  });
+
+  it('decrypts scrypt keystores', () => {
+    expect(decryptKeystore(JSON.stringify(SCRYPT_KEYSTORE), PASSWORD)).toBe(
+      PRIVATE_KEY
+    );
+  });
+
+  it('rejects wrong passwords', () => {
+    expect(() =>
+      decryptKeystore(JSON.stringify(PBKDF2_KEYSTORE), 'wrongpassword')
+    ).toThrow('Invalid keystore password');
+  });
+
+  it('rejects unsupported PRFs', () => {
+    const keystore = structuredClone(PBKDF2_KEYSTORE);
+    keystore.crypto.kdfparams.prf = 'hmac-sha512';
+
+    expect(() => decryptKeystore(JSON.stringify(keystore), PASSWORD)).toThrow(
+      'Unsupported keystore PRF: hmac-sha512'
+    );
+  });
+
+  it('rejects other keystore versions', () => {
+    expect(() =>
+      decryptKeystore(
+        JSON.stringify({ ...PBKDF2_KEYSTORE, version: 1 }),
+        PASSWORD
+      )
+    ).toThrow();
+  });
+});